@@ -0,0 +1,78 @@
+// Service worker: offline app shell, and the buttons on reminder notifications (see src/db/reminders.ts).
+
+const CACHE = 'app-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const keys = await caches.keys();
+        await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+        await self.clients.claim();
+    })());
+});
+
+// The page sends what it loaded before this worker took control
+self.addEventListener('message', event => {
+    if (event.data && event.data.type === 'cache-urls') {
+        event.waitUntil(caches.open(CACHE).then(cache => Promise.all(
+            event.data.urls.map(url => cache.match(url).then(hit => hit || cache.add(url).catch(() => undefined)))
+        )));
+    }
+});
+
+const putInCache = async (request, response) => {
+    if (response.ok) {
+        const cache = await caches.open(CACHE);
+        await cache.put(request, response.clone());
+    }
+    return response;
+};
+
+// Pages: network first so a new version shows up when online, the cached shell otherwise.
+// Built assets have content hashes in their names, so a cached copy is always current.
+// Everything else same-origin: network, falling back to the cache. Firebase and other origins are left alone.
+self.addEventListener('fetch', event => {
+    const request = event.request;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then(response => putInCache('/', response))
+                .catch(async () => (await caches.match('/')) || Response.error())
+        );
+    } else if (url.pathname.startsWith('/assets/')) {
+        event.respondWith(caches.match(request).then(hit => hit || fetch(request).then(response => putInCache(request, response))));
+    } else {
+        event.respondWith(
+            fetch(request)
+                .then(response => putInCache(request, response))
+                .catch(async () => (await caches.match(request)) || Response.error())
+        );
+    }
+});
+
+self.addEventListener('notificationclick', event => {
+    const notification = event.notification;
+    const taskId = notification.data && notification.data.taskId;
+    const action = event.action;
+    notification.close();
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (windows.length === 0) {
+            const query = action && taskId ? `?reminderAction=${encodeURIComponent(action)}&taskId=${encodeURIComponent(taskId)}` : '';
+            await self.clients.openWindow(`/${query}`);
+            return;
+        }
+        const client = windows.find(w => w.focused) || windows[0];
+        if (action && taskId) client.postMessage({ type: 'reminder-action', action, taskId });
+        // Only a click on the notification body brings the app forward
+        else await client.focus();
+    })());
+});
@@ -1,23 +1,51 @@
 import { useState, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { history } from './db/history';
+import { actions } from './db/actions';
 import { TaskTree, type TaskTreeHandle } from './components/TaskTree';
 import { TaskDetailPanel } from './components/TaskDetailPanel';
-import { useTasks, type SectionFilter } from './db/hooks';
-import { ListTodo, Calendar, Clock, Archive, Search, Target, Plus } from 'lucide-react';
-import { useAuthState } from 'react-firebase-hooks/auth';
-import { auth } from './db/firebase';
+import { HistoryPanel } from './components/HistoryPanel';
+import { HistoryConflictNotice } from './components/HistoryConflictNotice';
+import { TrashView } from './components/TrashView';
+import { SearchBox } from './components/SearchBox';
+import { CopyMarkdownButton } from './components/CopyMarkdownButton';
+import { SortMenu } from './components/SortMenu';
+import { LayoutMenu } from './components/LayoutMenu';
+import { TaskBoard } from './components/TaskBoard';
+import { CommandPalette } from './components/CommandPalette';
+import { ShortcutSettings } from './components/ShortcutSettings';
+import { buildOutline, outlineToMarkdown } from './db/outline';
+import { calendarTasks, tasksToICalendar, calendarFileName } from './db/ical';
+import { downloadFile } from './components/download';
+import { exportBackup, backupFileName } from './db/backup';
+import { createSearchFilter } from './db/search';
+import { getTrashRetentionDays } from './db/trash';
+import { smartViews, isViewActive } from './db/views';
+import { reminders } from './db/reminders';
+import { keymap, isTypingIn, withShortcut } from './db/keymap';
+import { loadLayout, saveLayout, type Layout } from './db/board';
+import { getSortKey, loadSortModes, saveSortModes, SORT_MODES, type SortMode } from './db/sorting';
+import { useTasks, useTags, useKeymap, useSession, useSmartViews, type PriorityFilter, type SectionFilter } from './db/hooks';
+import { type SmartView } from './db/views';
+import { ListTodo, Calendar, CalendarArrowDown, Clock, Archive, Target, Plus, History as HistoryIcon, Trash2, Command } from 'lucide-react';
 import { AuthLogin } from './components/AuthLogin';
 import './index.css';
 
 function App() {
   const [filter, setFilter] = useState<SectionFilter>('all');
   const [statusFilter, setStatusFilter] = useState<'all' | 'completed' | 'incomplete'>('all');
+  const [priorityFilter, setPriorityFilter] = useState<PriorityFilter>('all');
   const [theme, setTheme] = useState<'light' | 'twilight' | 'midnight'>(() => {
     return (localStorage.getItem('theme') as 'light' | 'twilight' | 'midnight') || 'midnight';
   });
+  const [sortModes, setSortModes] = useState<Record<string, SortMode>>(loadSortModes);
+  const [layout, setLayout] = useState<Layout>(loadLayout);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // The selection the palette acts on, taken when it opens; null while it is closed
+  const [paletteSelection, setPaletteSelection] = useState<string[] | null>(null);
   const [containerWidth, setContainerWidth] = useState(() => {
     const saved = localStorage.getItem('containerWidth');
     return saved ? parseInt(saved, 10) : 896; // 896px = max-w-4xl
@@ -26,16 +54,40 @@ function App() {
     const saved = localStorage.getItem('rightPanelWidth');
     return saved ? parseInt(saved, 10) : 320; // default w-80 (320px)
   });
-  const tasks = useTasks(filter, statusFilter);
+  const tasks = useTasks(filter, statusFilter, priorityFilter);
+  const views = useSmartViews();
+  const allTasks = useTasks('all');
+  const tags = useTags();
+  // Re-renders the shortcut hints in tooltips when the keys change
+  useKeymap();
   const taskTreeRef = useRef<TaskTreeHandle>(null);
 
-  const [user, authLoading] = useAuthState(auth);
+  const [user, authLoading] = useSession();
+  const uid = user?.uid;
+
+  useEffect(() => {
+    if (!uid) {
+      history.clear();
+      smartViews.clear();
+      reminders.stop();
+      return;
+    }
+    actions.migrateLegacyRanks();
+    actions.purgeExpiredTrash(getTrashRetentionDays());
+    history.load();
+    smartViews.load();
+    reminders.start();
+  }, [uid]);
 
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    saveLayout(layout);
+  }, [layout]);
+
   useEffect(() => {
     localStorage.setItem('containerWidth', containerWidth.toString());
   }, [containerWidth]);
@@ -46,18 +98,21 @@ function App() {
 
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
-      // Don't intercept if user is typing in an input/textarea (browser handles native undo there)
-      const activeElement = document.activeElement;
-      const isTyping = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA';
-
-      if (!isTyping) {
-        if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-          e.preventDefault();
-          history.undo();
-        } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
-          e.preventDefault();
-          history.redo();
-        }
+      if (keymap.matches(e, 'commandPalette')) {
+        e.preventDefault();
+        setPaletteSelection(taskTreeRef.current?.getSelection() ?? []);
+        return;
+      }
+
+      // Text fields keep their own undo
+      if (isTypingIn(document.activeElement)) return;
+
+      if (keymap.matches(e, 'undo')) {
+        e.preventDefault();
+        history.undo();
+      } else if (keymap.matches(e, 'redo')) {
+        e.preventDefault();
+        history.redo();
       }
     };
 
@@ -72,6 +127,7 @@ function App() {
       case 'upcoming': return { title: 'Upcoming', icon: <Clock className="text-blue-400" /> };
       case 'past': return { title: 'Past & Completed', icon: <Archive className="text-orange-400" /> };
       case 'all': return { title: 'Inbox', icon: <ListTodo className="text-purple-400" /> };
+      case 'trash': return { title: 'Trash', icon: <Trash2 className="text-rose-400" /> };
       default: return { title: 'Filtered', icon: <ListTodo /> };
     }
   };
@@ -89,6 +145,51 @@ function App() {
   }
 
   const header = getHeaderForFilter(filter);
+  const activeView = views.find(v => isViewActive(v, filter, statusFilter, priorityFilter, searchQuery));
+  const sortMode = (activeView ? activeView.sortMode : sortModes[getSortKey(filter)]) ?? 'manual';
+
+  // A saved view keeps its sort with it; the built-in views remember theirs on this device
+  const handleSortChange = (mode: SortMode) => {
+    if (activeView) {
+      smartViews.update(activeView.id, { sortMode: mode });
+      return;
+    }
+    const next = { ...sortModes, [getSortKey(filter)]: mode };
+    setSortModes(next);
+    saveSortModes(next);
+  };
+
+  // Tasks of the current view as listed, i.e. with the search applied
+  const getShownTasks = () => {
+    const shown = tasks || [];
+    return searchQuery.trim() ? shown.filter(createSearchFilter(searchQuery, allTasks || [])) : shown;
+  };
+
+  const applyView = (view: SmartView) => {
+    setFilter(view.filter);
+    setStatusFilter(view.statusFilter);
+    setPriorityFilter(view.priorityFilter ?? 'all');
+    setSearchQuery(view.searchQuery);
+  };
+
+  const copyMarkdown = () => navigator.clipboard.writeText(outlineToMarkdown(buildOutline(getShownTasks())));
+
+  const downloadCalendar = () => downloadFile(
+    calendarFileName(activeView?.name ?? header.title),
+    tasksToICalendar(calendarTasks(getShownTasks())),
+    'text/calendar'
+  );
+
+  // Jumping to a task shows it in the unfiltered Inbox, where every task has its place in the tree
+  const revealTask = (id: string) => {
+    setFilter('all');
+    setStatusFilter('all');
+    setPriorityFilter('all');
+    setSearchQuery('');
+    setShowHistory(false);
+    // Once the Inbox tree has rendered
+    setTimeout(() => taskTreeRef.current?.revealTask(id), 0);
+  };
 
   return (
     <div className="flex h-screen text-theme-text font-sans overflow-hidden">
@@ -97,8 +198,13 @@ function App() {
         onFilterChange={setFilter}
         statusFilter={statusFilter}
         onStatusFilterChange={setStatusFilter}
+        priorityFilter={priorityFilter}
+        onPriorityFilterChange={setPriorityFilter}
+        searchQuery={searchQuery}
+        onApplyView={applyView}
         theme={theme}
         onThemeChange={setTheme}
+        onShowShortcuts={() => setShowShortcuts(true)}
       />
 
       <main className="flex-1 flex flex-col items-center">
@@ -142,15 +248,52 @@ function App() {
               </div>
               <div>
                 <h1 className="text-3xl font-bold tracking-tight text-theme-text-inv">
-                  {header.title}
+                  {activeView?.name ?? header.title}
                 </h1>
                 <p className="text-sm text-theme-muted mt-1 font-medium">
                   {tasks?.length || 0} tasks
+                  {filter !== 'trash' && sortMode !== 'manual' && ` · sorted by ${SORT_MODES.find(m => m.id === sortMode)?.label.toLowerCase()}`}
                 </p>
               </div>
             </div>
 
             <div className="flex items-center gap-3 w-full max-w-md justify-end">
+              {filter !== 'trash' && (
+                <>
+                  <CopyMarkdownButton
+                    title="Copy this view as Markdown"
+                    className="p-2 rounded-xl border border-theme-glass-border shadow-sm"
+                    getMarkdown={() => outlineToMarkdown(buildOutline(getShownTasks()))}
+                  />
+                  <button
+                    onClick={downloadCalendar}
+                    className="p-2 rounded-xl border border-theme-glass-border text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors shadow-sm"
+                    title="Download the dated tasks of this view as a calendar (.ics)"
+                  >
+                    <CalendarArrowDown size={18} />
+                  </button>
+                </>
+              )}
+              {filter !== 'trash' && (
+                <>
+                  <LayoutMenu value={layout} onChange={setLayout} />
+                  <SortMenu value={sortMode} onChange={handleSortChange} />
+                </>
+              )}
+              <button
+                onClick={() => setPaletteSelection(taskTreeRef.current?.getSelection() ?? [])}
+                className="p-2 rounded-xl border border-theme-glass-border text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors shadow-sm"
+                title={withShortcut('Command palette', 'commandPalette')}
+              >
+                <Command size={18} />
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="p-2 rounded-xl border border-theme-glass-border text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors shadow-sm"
+                title="History"
+              >
+                <HistoryIcon size={18} />
+              </button>
               <button
                 onClick={() => taskTreeRef.current?.addRootTask()}
                 className="flex items-center gap-2 px-4 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-xl font-medium transition-colors shadow-sm whitespace-nowrap"
@@ -158,18 +301,7 @@ function App() {
                 <Plus size={18} />
                 <span>Add Task</span>
               </button>
-              <div className="relative max-w-xs w-full">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Search className="h-5 w-5 text-theme-muted" />
-                </div>
-                <input
-                  type="text"
-                  placeholder="Search tasks..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="block w-full pl-10 pr-3 py-2 border border-theme-glass-border rounded-xl leading-5 bg-theme-input-bg backdrop-blur-sm placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-theme-accent focus:border-transparent focus:bg-theme-glass-solid sm:text-sm transition-all shadow-sm text-theme-text"
-                />
-              </div>
+              <SearchBox value={searchQuery} onChange={setSearchQuery} />
             </div>
           </header>
 
@@ -178,6 +310,21 @@ function App() {
               <div className="w-full h-full flex items-center justify-center text-theme-muted">
                 Loading database...
               </div>
+            ) : filter === 'trash' ? (
+              <div className="flex-1 overflow-hidden">
+                <TrashView />
+              </div>
+            ) : layout !== 'list' ? (
+              <div className="flex-1 overflow-hidden">
+                <TaskBoard
+                  ref={taskTreeRef}
+                  tasks={getShownTasks()}
+                  grouping={layout}
+                  sortMode={sortMode}
+                  selectedTaskId={selectedTaskId}
+                  setSelectedTaskId={setSelectedTaskId}
+                />
+              </div>
             ) : (
               <div className="flex-1 overflow-hidden">
                 <TaskTree
@@ -187,6 +334,7 @@ function App() {
                   isFocusMode={filter === 'focus'}
                   searchQuery={searchQuery}
                   onClearSearch={() => setSearchQuery('')}
+                  sortMode={sortMode}
                   selectedTaskId={selectedTaskId}
                   setSelectedTaskId={setSelectedTaskId}
                 />
@@ -194,7 +342,7 @@ function App() {
             )}
 
             {/* Right Panel Wrapper */}
-            {selectedTaskId && tasks && (
+            {(selectedTaskId || showHistory) && tasks && (
               <>
                 <div
                   className="w-1.5 cursor-col-resize hover:bg-theme-accent bg-theme-glass-border/30 transition-colors z-20 flex-shrink-0"
@@ -224,17 +372,51 @@ function App() {
                   style={{ width: `${rightPanelWidth}px` }}
                   className="h-full border-l border-theme-glass-border bg-theme-glass-solid flex-shrink-0 z-10 animate-in slide-in-from-right-8"
                 >
-                  <TaskDetailPanel
-                    taskId={selectedTaskId}
-                    tasks={tasks}
-                    onClose={() => setSelectedTaskId(null)}
-                  />
+                  {showHistory ? (
+                    <HistoryPanel onClose={() => setShowHistory(false)} />
+                  ) : selectedTaskId && (
+                    <TaskDetailPanel
+                      taskId={selectedTaskId}
+                      tasks={tasks}
+                      onClose={() => setSelectedTaskId(null)}
+                    />
+                  )}
                 </div>
               </>
             )}
           </div>
         </div>
       </main>
+
+      <HistoryConflictNotice />
+
+      {paletteSelection && (
+        <CommandPalette
+          onClose={() => setPaletteSelection(null)}
+          context={{
+            selection: (allTasks || []).filter(t => paletteSelection.includes(t.id)),
+            allTasks: allTasks || [],
+            tags,
+            views,
+            theme,
+            layout,
+            canAddTask: filter !== 'trash',
+            addTask: () => taskTreeRef.current?.addRootTask(),
+            revealTask,
+            setFilter,
+            applyView,
+            setTheme,
+            setLayout,
+            showHistory: () => setShowHistory(true),
+            showShortcuts: () => setShowShortcuts(true),
+            copyMarkdown,
+            downloadCalendar,
+            exportBackup: async () => downloadFile(backupFileName(), JSON.stringify(await exportBackup(), null, 2), 'application/json')
+          }}
+        />
+      )}
+
+      {showShortcuts && <ShortcutSettings onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 }
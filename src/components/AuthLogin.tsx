@@ -1,6 +1,5 @@
 import React, { useState } from 'react';
-import { auth } from '../db/firebase';
-import { signInWithEmailAndPassword, createUserWithEmailAndPassword } from 'firebase/auth';
+import { getSession } from '../db/repository';
 import { Target } from 'lucide-react';
 
 export const AuthLogin: React.FC = () => {
@@ -17,9 +16,9 @@ export const AuthLogin: React.FC = () => {
 
         try {
             if (isLogin) {
-                await signInWithEmailAndPassword(auth, email, password);
+                await getSession().signIn(email, password);
             } else {
-                await createUserWithEmailAndPassword(auth, email, password);
+                await getSession().signUp(email, password);
             }
         } catch (err: any) {
             setError(err.message || 'Failed to authenticate.');
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Calendar, CalendarX, Check, CornerDownRight, Flag, RotateCcw, Tag as TagIcon, Target, Trash2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { type Task } from '../db/db';
+import { actions } from '../db/actions';
+import { buildOutline, flattenOutline, withoutSubtrees } from '../db/outline';
+import { PRIORITIES, PRIORITY_NAMES, priorityLabel, parsePriority } from '../db/priority';
+import { withShortcut } from '../db/keymap';
+import { countOpenSubtasks } from '../db/completion';
+import { useTasks } from '../db/hooks';
+import { shouldCompleteSubtasks } from './completion';
+
+type Props = {
+    selectedIds: string[];
+    // The tasks in the current view, for the state of the toggles and the Move to targets
+    tasks: Task[];
+    onClear: () => void;
+};
+
+const BUTTON = "relative p-1.5 rounded-lg text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors";
+
+// Actions for a multi-selection in the task tree. Every button is a single undoable change.
+export const BulkActionBar: React.FC<Props> = ({ selectedIds, tasks, onClear }) => {
+    const [tag, setTag] = useState('');
+    // Subtasks the view hides still count when completing
+    const allTasks = useTasks('all');
+    const selected = tasks.filter(t => selectedIds.includes(t.id));
+    const allCompleted = selected.length > 0 && selected.every(t => t.completed);
+    const allFocused = selected.length > 0 && selected.every(t => t.isFocused);
+
+    // A selection can't move under one of its own tasks or their subtasks
+    const moveTargets = flattenOutline(withoutSubtrees(buildOutline(tasks), new Set(selectedIds)));
+
+    const handleToggleCompleted = () => {
+        if (allCompleted) actions.setTasksCompleted(selectedIds, false);
+        else actions.setTasksCompleted(selectedIds, true, shouldCompleteSubtasks(countOpenSubtasks(selectedIds, allTasks || [])));
+    };
+
+    const handleAddTag = () => {
+        const name = tag.trim().replace(/^#/, '');
+        if (!name) return;
+        actions.addTagToTasks(selectedIds, name);
+        setTag('');
+    };
+
+    return (
+        <div
+            className="sticky top-0 z-30 mb-2 flex flex-wrap items-center gap-1 px-3 py-2 rounded-xl border border-theme-accent bg-theme-glass backdrop-blur-md shadow-md text-sm animate-in"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <span className="font-semibold text-theme-text mr-2">{selectedIds.length} selected</span>
+
+            <button
+                onClick={handleToggleCompleted}
+                className={BUTTON}
+                title={allCompleted ? 'Reopen' : 'Complete'}
+            >
+                {allCompleted ? <RotateCcw size={16} /> : <Check size={16} />}
+            </button>
+
+            <div className={BUTTON} title="Reschedule">
+                <Calendar size={16} />
+                <input
+                    type="date"
+                    value=""
+                    onChange={(e) => e.target.value && actions.rescheduleTasks(selectedIds, e.target.value)}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer outline-none"
+                    aria-label="Reschedule selected tasks"
+                />
+            </div>
+            <button onClick={() => actions.rescheduleTasks(selectedIds, null)} className={BUTTON} title="Clear due date">
+                <CalendarX size={16} />
+            </button>
+
+            <div className={BUTTON} title="Set priority">
+                <Flag size={16} />
+                <select
+                    value=""
+                    onChange={(e) => {
+                        const priority = parsePriority(e.target.value);
+                        if (priority) actions.setTasksPriority(selectedIds, priority);
+                    }}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    aria-label="Set priority of selected tasks"
+                >
+                    <option value="" disabled>Priority</option>
+                    {PRIORITIES.map(p => (
+                        <option key={p} value={p}>{priorityLabel(p)} – {PRIORITY_NAMES[p]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <button
+                onClick={() => actions.setTasksFocused(selectedIds, !allFocused)}
+                className={clsx(BUTTON, allFocused && "text-teal-500")}
+                title={allFocused ? 'Remove from Focus' : 'Add to Focus'}
+            >
+                <Target size={16} />
+            </button>
+
+            <div className={BUTTON} title="Move under another task">
+                <CornerDownRight size={16} />
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && actions.moveTasks(selectedIds, { field: 'order', parentId: e.target.value })}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    aria-label="Move selected tasks"
+                >
+                    <option value="" disabled>Move to…</option>
+                    <option value="root">Top level</option>
+                    {moveTargets.map(o => (
+                        <option key={o.id} value={o.id}>{o.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex items-center gap-1 ml-1 px-2 py-1 rounded-lg bg-theme-input-bg border border-theme-border">
+                <TagIcon size={12} className="text-theme-muted" />
+                <input
+                    type="text"
+                    value={tag}
+                    onChange={(e) => setTag(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAddTag();
+                    }}
+                    placeholder="Add tag"
+                    className="w-20 bg-transparent border-none outline-none text-theme-text placeholder:text-theme-muted"
+                />
+            </div>
+
+            <button
+                onClick={() => {
+                    actions.deleteTasks(selectedIds);
+                    onClear();
+                }}
+                className="p-1.5 rounded-lg text-theme-muted hover:text-rose-400 hover:bg-rose-500/10 transition-colors"
+                title={withShortcut('Delete', 'deleteTask')}
+            >
+                <Trash2 size={16} />
+            </button>
+
+            <button onClick={onClear} className={clsx(BUTTON, "ml-auto")} title={withShortcut('Clear selection', 'clearSelection')}>
+                <X size={16} />
+            </button>
+        </div>
+    );
+};
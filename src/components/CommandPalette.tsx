@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { clsx } from 'clsx';
+import { fuzzyMatch } from '../db/fuzzy';
+import { buildCommands, type CommandContext, type PaletteCommand } from './commands';
+
+type Props = {
+    context: CommandContext;
+    onClose: () => void;
+};
+
+const MAX_RESULTS = 50;
+
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => (
+    <>
+        {Array.from(text, (ch, i) => indices.includes(i)
+            ? <span key={i} className="text-theme-accent font-semibold">{ch}</span>
+            : ch)}
+    </>
+);
+
+// Command palette (Ctrl+K by default): fuzzy search over commands and tasks, run with Enter. Escape or Backspace in an empty
+// second list goes back to the commands.
+export const CommandPalette: React.FC<Props> = ({ context, onClose }) => {
+    const commands = buildCommands(context);
+    const [query, setQuery] = useState('');
+    const [parent, setParent] = useState<PaletteCommand | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const candidates = parent ? parent.options!(query) : commands.filter(c => query.trim() || !c.searchOnly);
+    const results = query.trim()
+        ? candidates
+            .map(command => ({ command, match: fuzzyMatch(query, command.label) }))
+            .filter((r): r is { command: PaletteCommand; match: NonNullable<typeof r.match> } => r.match !== null)
+            .sort((a, b) => b.match.score - a.match.score)
+            .slice(0, MAX_RESULTS)
+        : candidates.slice(0, MAX_RESULTS).map(command => ({ command, match: { score: 0, indices: [] as number[] } }));
+    const active = Math.min(activeIndex, Math.max(0, results.length - 1));
+
+    useEffect(() => {
+        listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+    }, [active, results.length]);
+
+    const open = (command: PaletteCommand | null) => {
+        setParent(command);
+        setQuery('');
+        setActiveIndex(0);
+    };
+
+    const choose = (command: PaletteCommand) => {
+        if (command.options) {
+            open(command);
+            return;
+        }
+        onClose();
+        command.run?.();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (results.length === 0) return;
+            setActiveIndex((active + (e.key === 'ArrowDown' ? 1 : results.length - 1)) % results.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[active]) choose(results[active].command);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            if (parent) open(null);
+            else onClose();
+        } else if (e.key === 'Backspace' && !query && parent) {
+            e.preventDefault();
+            open(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-black/40 animate-in" onClick={onClose}>
+            <div
+                className="w-[36rem] max-w-[calc(100vw-2rem)] bg-theme-glass-solid backdrop-blur-xl border border-theme-glass-border rounded-2xl shadow-lg flex flex-col overflow-hidden"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-theme-glass-border">
+                    {parent ? (
+                        <button onClick={() => open(null)} className="flex items-center gap-1 text-sm font-semibold text-theme-accent whitespace-nowrap" title="Back (Backspace)">
+                            <ChevronLeft size={16} /> {parent.label}
+                        </button>
+                    ) : (
+                        <Search size={18} className="text-theme-muted flex-none" />
+                    )}
+                    <input
+                        autoFocus
+                        type="text"
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setActiveIndex(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder={parent ? 'Type to filter…' : 'Type a command or search tasks…'}
+                        className="flex-1 bg-transparent border-none outline-none text-[15px] text-theme-text placeholder:text-theme-muted"
+                        aria-label="Command"
+                    />
+                </div>
+
+                <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-2">
+                    {results.length === 0 ? (
+                        <div className="text-theme-muted italic text-sm text-center py-6">No matching commands</div>
+                    ) : results.map(({ command, match }, i) => {
+                        const Icon = command.icon;
+                        return (
+                            <div
+                                key={command.id}
+                                data-active={i === active}
+                                onMouseMove={() => i !== active && setActiveIndex(i)}
+                                onClick={() => choose(command)}
+                                className={clsx(
+                                    "flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-sm",
+                                    i === active ? "bg-theme-accent-bg text-theme-text" : "text-theme-muted"
+                                )}
+                            >
+                                {Icon ? <Icon size={16} className="flex-none" /> : <span className="w-4 flex-none" />}
+                                <span className="flex-1 truncate text-theme-text">
+                                    <Highlighted text={command.label} indices={match.indices} />
+                                </span>
+                                {command.hint && <span className="text-xs text-theme-muted truncate max-w-[40%]">{command.hint}</span>}
+                                <span className="text-[11px] uppercase tracking-wider text-theme-muted">{command.section}</span>
+                                {command.options && <ChevronRight size={14} className="flex-none" />}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { getCompletionRules, setCompletionRules, type CompletionRules } from '../db/completion';
+
+// The completion rules for parents and subtasks, shown in the Sidebar
+export const CompletionSettings: React.FC = () => {
+    const [rules, setRules] = useState(getCompletionRules);
+
+    const update = (changes: Partial<CompletionRules>) => {
+        const next = { ...rules, ...changes };
+        setRules(next);
+        setCompletionRules(next);
+    };
+
+    return (
+        <div className="flex flex-col gap-2 px-3 text-sm text-theme-muted">
+            <label className="flex items-center justify-between gap-2">
+                Completing a task
+                <select
+                    value={rules.completeSubtasks}
+                    onChange={e => update({ completeSubtasks: e.target.value as CompletionRules['completeSubtasks'] })}
+                    className="bg-theme-input-bg border border-theme-border rounded-lg px-2 py-1 text-xs text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent"
+                >
+                    <option value="always">completes subtasks</option>
+                    <option value="ask">asks about subtasks</option>
+                    <option value="never">leaves subtasks open</option>
+                </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rules.completeParentWithLastSubtask}
+                    onChange={e => update({ completeParentWithLastSubtask: e.target.checked })}
+                    className="accent-emerald-500"
+                />
+                Complete a task with its last subtask
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rules.reopenParents}
+                    onChange={e => update({ reopenParents: e.target.checked })}
+                    className="accent-emerald-500"
+                />
+                Reopening a subtask reopens its parents
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import { ClipboardCopy, Check } from 'lucide-react';
+import { clsx } from 'clsx';
+
+type Props = {
+    getMarkdown: () => Promise<string> | string;
+    title: string;
+    className?: string;
+};
+
+// Copies a Markdown checklist to the clipboard and briefly confirms it
+export const CopyMarkdownButton: React.FC<Props> = ({ getMarkdown, title, className }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(await getMarkdown());
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <button
+            onClick={handleCopy}
+            className={clsx("text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors", className)}
+            title={copied ? 'Copied' : title}
+        >
+            {copied ? <Check size={18} className="text-emerald-500" /> : <ClipboardCopy size={18} />}
+        </button>
+    );
+};
@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { actions, type ImportedTask } from '../db/actions';
+import { exportBackup, parseBackup, backupFileName, BackupError, type BackupFile } from '../db/backup';
+import { buildOutline, flattenOutline, parseOutline } from '../db/outline';
+import { parseICalendar, planCalendarImport, CalendarError } from '../db/ical';
+import { detectImportFormat, type ImportFormat } from '../db/importers';
+import { useTasks } from '../db/hooks';
+import { downloadFile } from './download';
+import { ImportWizard } from './ImportWizard';
+
+type Pending =
+    | { file: BackupFile; name: string }
+    | { outline: ImportedTask[]; name: string }
+    | { calendar: ReturnType<typeof planCalendarImport>; name: string }
+    | { error: string; name: string };
+
+// Backup export, and import of backups, Markdown outlines, calendars and other apps' exports, shown at the bottom of the Sidebar
+export const DataMenu: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pending, setPending] = useState<Pending | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [targetParentId, setTargetParentId] = useState('root');
+    // Exports of other apps go through the ImportWizard instead of the dialog below
+    const [wizard, setWizard] = useState<{ fileName: string; text: string; format: ImportFormat } | null>(null);
+    const allTasks = useTasks('all');
+
+    const handleExport = async () => {
+        const backup = await exportBackup();
+        downloadFile(backupFileName(), JSON.stringify(backup, null, 2), 'application/json');
+    };
+
+    const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const chosen = e.target.files?.[0];
+        e.target.value = '';
+        if (!chosen) return;
+        const text = await chosen.text();
+        if (/\.ics$/i.test(chosen.name)) {
+            try {
+                const plan = planCalendarImport(parseICalendar(text), allTasks || []);
+                setPending(plan.imported.length + plan.updates.length > 0
+                    ? { calendar: plan, name: chosen.name }
+                    : { error: 'Everything in this calendar is already up to date.', name: chosen.name });
+            } catch (err) {
+                if (!(err instanceof CalendarError)) throw err;
+                setPending({ error: err.message, name: chosen.name });
+            }
+            return;
+        }
+        const detected = detectImportFormat(chosen.name, text);
+        if (detected) {
+            setWizard({ fileName: chosen.name, text, format: detected });
+            return;
+        }
+        if (!/\.json$/i.test(chosen.name)) {
+            const outline = parseOutline(text);
+            setTargetParentId('root');
+            setPending(outline.length > 0
+                ? { outline, name: chosen.name }
+                : { error: 'The file has no items to import.', name: chosen.name });
+            return;
+        }
+        try {
+            setPending({ file: parseBackup(text), name: chosen.name });
+        } catch (err) {
+            if (!(err instanceof BackupError)) throw err;
+            setPending({ error: err.message, name: chosen.name });
+        }
+    };
+
+    const handleImport = async (replace: boolean) => {
+        if (!pending || 'error' in pending) return;
+        setImporting(true);
+        try {
+            if ('file' in pending) {
+                await actions.importTasks(pending.file.tasks, { replace });
+            } else if ('calendar' in pending) {
+                const { imported, updates } = pending.calendar;
+                await actions.importTasks(imported, {
+                    updates,
+                    description: `Imported calendar: ${imported.length} new, ${updates.length} updated`
+                });
+            } else {
+                await actions.importTasks(pending.outline, { parentId: targetParentId });
+            }
+            setPending(null);
+        } catch {
+            setPending({ error: 'Import failed. Nothing was changed.', name: pending.name });
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="flex gap-2">
+                <button
+                    onClick={handleExport}
+                    className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg border border-theme-glass-border text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors text-sm font-medium"
+                    title="Download a JSON backup of all tasks"
+                >
+                    <Download size={16} />
+                    Export
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg border border-theme-glass-border text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors text-sm font-medium"
+                    title="Import tasks from a JSON backup, a Markdown / text outline, an iCalendar file, or a Todoist, TaskPaper or CSV export"
+                >
+                    <Upload size={16} />
+                    Import
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,.md,.markdown,.txt,.ics,.csv,.tsv,.taskpaper,application/json,text/markdown,text/plain,text/calendar,text/csv" className="hidden" onChange={handleFileChosen} />
+            </div>
+
+            {wizard && (
+                <ImportWizard
+                    fileName={wizard.fileName}
+                    text={wizard.text}
+                    initialFormat={wizard.format}
+                    allTasks={allTasks || []}
+                    onClose={() => setWizard(null)}
+                />
+            )}
+
+            {pending && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 animate-in" onClick={() => !importing && setPending(null)}>
+                    <div
+                        className="w-[28rem] max-w-[calc(100vw-2rem)] bg-theme-glass-solid backdrop-blur-xl border border-theme-glass-border rounded-2xl shadow-lg p-6 flex flex-col gap-4"
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4">
+                            <h2 className="text-lg font-bold text-theme-text-inv">{'outline' in pending ? 'Import outline' : 'calendar' in pending ? 'Import calendar' : 'Import backup'}</h2>
+                            <button onClick={() => setPending(null)} disabled={importing} className="p-1 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors">
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        {'error' in pending ? (
+                            <p className="text-sm text-rose-500">
+                                Couldn't import <span className="font-medium">{pending.name}</span>: {pending.error}
+                            </p>
+                        ) : 'calendar' in pending ? (
+                            <>
+                                <p className="text-sm text-theme-muted">
+                                    From {pending.name}: <span className="font-medium text-theme-text">{pending.calendar.imported.length} new</span> and
+                                    {' '}<span className="font-medium text-theme-text">{pending.calendar.updates.length} updated</span> tasks.
+                                    Items imported before are matched by their calendar UID and updated in place.
+                                </p>
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={() => handleImport(false)}
+                                        disabled={importing}
+                                        className="px-4 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-xl font-medium transition-colors shadow-sm text-sm disabled:opacity-40"
+                                    >
+                                        Import
+                                    </button>
+                                </div>
+                            </>
+                        ) : 'outline' in pending ? (
+                            <>
+                                <p className="text-sm text-theme-muted">
+                                    <span className="font-medium text-theme-text">{pending.outline.length} tasks</span> from {pending.name}. Choose where to add them.
+                                </p>
+                                <select
+                                    value={targetParentId}
+                                    onChange={e => setTargetParentId(e.target.value)}
+                                    className="w-full bg-theme-input-bg border border-theme-border rounded-lg px-3 py-2 text-sm text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent"
+                                >
+                                    <option value="root">Top level</option>
+                                    {flattenOutline(buildOutline(allTasks || [])).map(o => (
+                                        <option key={o.id} value={o.id}>{o.label}</option>
+                                    ))}
+                                </select>
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={() => handleImport(false)}
+                                        disabled={importing}
+                                        className="px-4 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-xl font-medium transition-colors shadow-sm text-sm disabled:opacity-40"
+                                    >
+                                        Import
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-sm text-theme-muted">
+                                    <span className="font-medium text-theme-text">{pending.file.tasks.length} tasks</span> from {pending.name}
+                                    {pending.file.exportedAt && !isNaN(Date.parse(pending.file.exportedAt)) &&
+                                        `, exported ${format(new Date(pending.file.exportedAt), 'MMM d, yyyy HH:mm')}`}.
+                                    {' '}Merging adds them after your current tasks. Replacing deletes your current tasks first.
+                                    Either way it can be undone.
+                                </p>
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => handleImport(true)}
+                                        disabled={importing}
+                                        className="px-4 py-2 rounded-xl text-rose-500 hover:bg-rose-500/10 transition-colors text-sm font-medium disabled:opacity-40"
+                                    >
+                                        Replace all
+                                    </button>
+                                    <button
+                                        onClick={() => handleImport(false)}
+                                        disabled={importing}
+                                        className="px-4 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-xl font-medium transition-colors shadow-sm text-sm disabled:opacity-40"
+                                    >
+                                        Merge
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { history, type HistoryConflict } from '../db/history';
+import { useHistoryConflicts } from '../db/hooks';
+
+const FIELD_LABELS: Record<string, string> = {
+    text: 'title',
+    notes: 'notes',
+    completed: 'completion',
+    dueDate: 'due date',
+    dueTime: 'due time',
+    duration: 'duration',
+    timeZone: 'time zone',
+    reminders: 'reminders',
+    snoozedUntil: 'snooze',
+    tags: 'tags',
+    priority: 'priority',
+    parentId: 'position',
+    order: 'position',
+    sectionOrder: 'position',
+    isFocused: 'focus',
+    focusOrder: 'focus position',
+    boardOrder: 'board position',
+    recurrence: 'repeat'
+};
+
+const describeConflict = (conflict: HistoryConflict) => {
+    const name = conflict.taskText ? `'${conflict.taskText}'` : 'A task';
+    switch (conflict.reason) {
+        case 'deleted': return `${name} was deleted elsewhere`;
+        case 'exists': return `${name} already exists with other changes`;
+        case 'changed': {
+            const fields = Array.from(new Set(conflict.fields.map(f => FIELD_LABELS[f] || f)));
+            return `${name} was changed elsewhere (${fields.join(', ')})`;
+        }
+    }
+};
+
+// Tells the user which parts of an undo/redo were skipped to avoid overwriting newer edits
+export const HistoryConflictNotice: React.FC = () => {
+    const reports = useHistoryConflicts();
+    if (reports.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-6 right-6 z-50 w-96 max-w-[calc(100vw-3rem)] bg-theme-glass-solid backdrop-blur-xl border border-amber-500/40 rounded-xl shadow-lg p-4 animate-in">
+            <div className="flex items-start gap-3">
+                <AlertTriangle size={18} className="text-amber-500 flex-none mt-0.5" />
+                <div className="flex-1 min-w-0 flex flex-col gap-2 text-sm">
+                    {reports.map((report, i) => (
+                        <div key={i}>
+                            <div className="font-semibold text-theme-text">
+                                Couldn't fully {report.direction} "{report.description}"
+                            </div>
+                            <ul className="text-theme-muted text-xs mt-1 flex flex-col gap-0.5">
+                                {report.conflicts.map((c, j) => <li key={j}>{describeConflict(c)}</li>)}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => history.dismissConflicts()}
+                    className="p-1 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+        </div>
+    );
+};
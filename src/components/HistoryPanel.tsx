@@ -0,0 +1,88 @@
+import React from 'react';
+import { X, History as HistoryIcon, Undo2, Redo2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { history } from '../db/history';
+import { useHistoryEntries, useHistorySaveFailed } from '../db/hooks';
+import { withShortcut } from '../db/keymap';
+
+type Props = {
+    onClose: () => void;
+};
+
+export const HistoryPanel: React.FC<Props> = ({ onClose }) => {
+    const entries = useHistoryEntries();
+    const saveFailed = useHistorySaveFailed();
+    const newestFirst = [...entries].reverse();
+    const currentId = newestFirst.find(e => !e.undone)?.id;
+
+    return (
+        <div className="w-full h-full flex flex-col relative animate-in slide-in-from-right-8 overflow-y-auto">
+            <div className="sticky top-0 bg-theme-glass-solid backdrop-blur-md z-20 border-b border-theme-border px-4 py-4 flex items-center justify-between">
+                <h2 className="text-lg font-bold text-theme-text-inv flex items-center gap-2">
+                    <HistoryIcon size={18} className="text-theme-muted" />
+                    History
+                </h2>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => history.undo()}
+                        disabled={!history.canUndo()}
+                        className="p-1.5 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                        title={withShortcut('Undo', 'undo')}
+                    >
+                        <Undo2 size={18} />
+                    </button>
+                    <button
+                        onClick={() => history.redo()}
+                        disabled={!history.canRedo()}
+                        className="p-1.5 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                        title={withShortcut('Redo', 'redo')}
+                    >
+                        <Redo2 size={18} />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-3 flex flex-col gap-1">
+                {saveFailed && (
+                    <p className="px-3 py-2 text-xs text-rose-500">
+                        The history could not be saved. Undo works until you reload the page.
+                    </p>
+                )}
+                {newestFirst.length === 0 && (
+                    <div className="text-theme-muted italic text-sm text-center py-10">
+                        Nothing to undo yet.
+                    </div>
+                )}
+                {newestFirst.map(entry => (
+                    <button
+                        key={entry.id}
+                        onClick={() => history.revertTo(entry.id)}
+                        title="Revert to this point"
+                        className={clsx(
+                            "w-full text-left px-3 py-2 rounded-lg border transition-colors",
+                            entry.id === currentId
+                                ? "bg-theme-accent-bg border-theme-accent"
+                                : "border-transparent hover:bg-theme-hover hover:border-theme-border",
+                            entry.undone && "opacity-50"
+                        )}
+                    >
+                        <div className={clsx("text-sm font-medium text-theme-text", entry.undone && "line-through")}>
+                            {entry.description}
+                        </div>
+                        <div className="text-xs text-theme-muted mt-0.5">
+                            {entry.id === currentId ? 'Current · ' : ''}
+                            {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+                        </div>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
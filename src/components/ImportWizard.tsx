@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { X, ChevronLeft, CornerDownRight } from 'lucide-react';
+import { clsx } from 'clsx';
+import { type Task } from '../db/db';
+import { actions, type ImportedTask } from '../db/actions';
+import { IMPORT_FORMATS, parseImport, ImportError, type ImportFormat } from '../db/importers';
+import { buildOutline, flattenOutline } from '../db/outline';
+
+type Props = {
+    fileName: string;
+    text: string;
+    initialFormat: ImportFormat;
+    allTasks: Task[];
+    onClose: () => void;
+};
+
+// Longer previews are cut off; the import itself always takes the whole file
+const PREVIEW_LIMIT = 200;
+
+// Imported tasks depth-first, with their depth
+const flattenImported = (tasks: ImportedTask[]) => {
+    const children = new Map<string, ImportedTask[]>();
+    const ids = new Set(tasks.map(t => t.id));
+    tasks.forEach(t => {
+        const parentId = ids.has(t.parentId) ? t.parentId : 'root';
+        children.set(parentId, [...(children.get(parentId) || []), t]);
+    });
+    const rows: { task: ImportedTask; depth: number }[] = [];
+    const walk = (parentId: string, depth: number) => {
+        for (const task of children.get(parentId) || []) {
+            rows.push({ task, depth });
+            walk(task.id, depth + 1);
+        }
+    };
+    walk('root', 0);
+    return rows;
+};
+
+// Two steps: check the parsed hierarchy (switching the format if the guess was wrong), then pick where it goes
+export const ImportWizard: React.FC<Props> = ({ fileName, text, initialFormat, allTasks, onClose }) => {
+    const [importFormat, setImportFormat] = useState(initialFormat);
+    const [step, setStep] = useState<'preview' | 'destination'>('preview');
+    const [targetParentId, setTargetParentId] = useState('root');
+    const [importing, setImporting] = useState(false);
+    const [failed, setFailed] = useState(false);
+
+    const parsed = useMemo(() => {
+        try {
+            return { tasks: parseImport(importFormat, text, fileName), error: null };
+        } catch (err) {
+            if (err instanceof ImportError) return { tasks: [], error: err.message };
+            // A file that only looks like the format, e.g. with fields of the wrong type, must not take the app down
+            return { tasks: [], error: `This file could not be read as ${IMPORT_FORMATS[importFormat]}.` };
+        }
+    }, [importFormat, text, fileName]);
+    const rows = useMemo(() => flattenImported(parsed.tasks), [parsed.tasks]);
+
+    const handleImport = async () => {
+        setImporting(true);
+        try {
+            await actions.importTasks(parsed.tasks, {
+                parentId: targetParentId,
+                description: `Imported ${parsed.tasks.length} tasks from ${IMPORT_FORMATS[importFormat]}`
+            });
+            onClose();
+        } catch {
+            setFailed(true);
+            setImporting(false);
+        }
+    };
+
+    const buttonClass = "px-4 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-xl font-medium transition-colors shadow-sm text-sm disabled:opacity-40";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 animate-in" onClick={() => !importing && onClose()}>
+            <div
+                className="w-[32rem] max-w-[calc(100vw-2rem)] max-h-[calc(100vh-4rem)] bg-theme-glass-solid backdrop-blur-xl border border-theme-glass-border rounded-2xl shadow-lg p-6 flex flex-col gap-4"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-theme-text-inv">Import {fileName}</h2>
+                        <p className="text-xs text-theme-muted mt-0.5">Step {step === 'preview' ? 1 : 2} of 2: {step === 'preview' ? 'check the tasks' : 'choose where they go'}</p>
+                    </div>
+                    <button onClick={onClose} disabled={importing} className="p-1 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {step === 'preview' ? (
+                    <>
+                        <label className="flex items-center gap-3 text-sm text-theme-muted">
+                            Format
+                            <select
+                                value={importFormat}
+                                onChange={e => setImportFormat(e.target.value as ImportFormat)}
+                                className="flex-1 bg-theme-input-bg border border-theme-border rounded-lg px-3 py-2 text-sm text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent"
+                            >
+                                {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(f => (
+                                    <option key={f} value={f}>{IMPORT_FORMATS[f]}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        {parsed.error ? (
+                            <p className="text-sm text-rose-500">{parsed.error}</p>
+                        ) : (
+                            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-theme-border bg-theme-input-bg py-1">
+                                {rows.slice(0, PREVIEW_LIMIT).map(({ task, depth }) => (
+                                    <div key={task.id} className="flex items-center gap-2 px-3 py-1 text-sm" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+                                        {depth > 0 && <CornerDownRight size={12} className="text-theme-muted shrink-0" />}
+                                        <span className={clsx("truncate", task.completed ? "line-through text-theme-muted" : "text-theme-text")}>
+                                            {task.text || 'Untitled'}
+                                        </span>
+                                        {task.dueDate && <span className="text-xs text-theme-muted shrink-0">{task.dueDate}</span>}
+                                        {task.tags?.map(tag => (
+                                            <span key={tag} className="text-xs px-1.5 rounded bg-theme-hover text-theme-muted shrink-0">#{tag}</span>
+                                        ))}
+                                    </div>
+                                ))}
+                                {rows.length > PREVIEW_LIMIT && (
+                                    <p className="px-3 py-1 text-xs text-theme-muted">…and {rows.length - PREVIEW_LIMIT} more</p>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <button onClick={() => setStep('destination')} disabled={!!parsed.error} className={buttonClass}>
+                                Next
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <p className="text-sm text-theme-muted">
+                            <span className="font-medium text-theme-text">{parsed.tasks.length} tasks</span> from {IMPORT_FORMATS[importFormat]}.
+                            {' '}They are added in one step, so a single undo takes them all back out.
+                        </p>
+                        <select
+                            value={targetParentId}
+                            onChange={e => setTargetParentId(e.target.value)}
+                            className="w-full bg-theme-input-bg border border-theme-border rounded-lg px-3 py-2 text-sm text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent"
+                        >
+                            <option value="root">Top level</option>
+                            {flattenOutline(buildOutline(allTasks)).map(o => (
+                                <option key={o.id} value={o.id}>{o.label}</option>
+                            ))}
+                        </select>
+                        {failed && <p className="text-sm text-rose-500">Import failed. Nothing was changed.</p>}
+                        <div className="flex justify-between">
+                            <button
+                                onClick={() => setStep('preview')}
+                                disabled={importing}
+                                className="flex items-center gap-1 px-3 py-2 rounded-xl text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors text-sm font-medium"
+                            >
+                                <ChevronLeft size={16} />
+                                Back
+                            </button>
+                            <button onClick={handleImport} disabled={importing} className={buttonClass}>
+                                Import
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
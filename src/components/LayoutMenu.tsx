@@ -0,0 +1,38 @@
+import React from 'react';
+import { LayoutList, SquareKanban } from 'lucide-react';
+import { clsx } from 'clsx';
+import { BOARD_GROUPINGS, type Layout } from '../db/board';
+
+type Props = {
+    value: Layout;
+    onChange: (layout: Layout) => void;
+};
+
+// List or board picker for the views: an icon button over an invisible native select, like the SortMenu
+export const LayoutMenu: React.FC<Props> = ({ value, onChange }) => {
+    const grouping = BOARD_GROUPINGS.find(g => g.id === value);
+    return (
+        <div
+            className={clsx(
+                "relative p-2 rounded-xl border transition-colors shadow-sm",
+                grouping
+                    ? "border-theme-accent bg-theme-accent-bg text-theme-accent"
+                    : "border-theme-glass-border text-theme-muted hover:text-theme-text hover:bg-theme-hover"
+            )}
+            title={grouping ? `Board by ${grouping.label.toLowerCase()}` : 'List'}
+        >
+            {grouping ? <SquareKanban size={18} /> : <LayoutList size={18} />}
+            <select
+                value={value}
+                onChange={(e) => onChange(e.target.value as Layout)}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                aria-label="Show tasks as"
+            >
+                <option value="list">List</option>
+                {BOARD_GROUPINGS.map(g => (
+                    <option key={g.id} value={g.id}>Board by {g.label.toLowerCase()}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
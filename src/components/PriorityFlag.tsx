@@ -0,0 +1,23 @@
+import React from 'react';
+import { Flag } from 'lucide-react';
+import { clsx } from 'clsx';
+import { type Priority } from '../db/db';
+import { PRIORITY_NAMES, priorityLabel } from '../db/priority';
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+    1: 'text-rose-500 fill-rose-500/30',
+    2: 'text-orange-500 fill-orange-500/30',
+    3: 'text-blue-500 fill-blue-500/30',
+    4: 'text-theme-muted'
+};
+
+type Props = {
+    priority: Priority;
+    size?: number;
+    className?: string;
+};
+
+// Colored flag marking a priority, used on task rows, in the detail panel and the Sidebar filter
+export const PriorityFlag: React.FC<Props> = ({ priority, size = 14, className }) => (
+    <Flag size={size} className={clsx(PRIORITY_COLORS[priority], className)} aria-label={`${priorityLabel(priority)} ${PRIORITY_NAMES[priority]}`} />
+);
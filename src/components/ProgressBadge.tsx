@@ -0,0 +1,23 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { type Progress } from '../db/completion';
+
+type Props = {
+    progress: Progress;
+    className?: string;
+};
+
+// "3/7" over a bar of completed subtasks, on task rows and board cards
+export const ProgressBadge: React.FC<Props> = ({ progress, className }) => (
+    <div
+        className={clsx("flex-none flex flex-col gap-0.5", className)}
+        title={`${progress.done} of ${progress.total} subtasks done`}
+    >
+        <span className={clsx("text-[11px] font-semibold tabular-nums", progress.done === progress.total ? "text-emerald-500" : "text-theme-muted")}>
+            {progress.done}/{progress.total}
+        </span>
+        <div className="w-full h-1 rounded-full bg-theme-input-bg overflow-hidden">
+            <div className="h-full rounded-full bg-emerald-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+        </div>
+    </div>
+);
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { type Reminder, type Task } from '../db/db';
+import { actions } from '../db/actions';
+import { reminders, describeReminder, notificationsSupported, REMINDER_PRESETS } from '../db/reminders';
+
+type Props = {
+    task: Task;
+    inputClass: string;
+};
+
+// Reminder list with an "add" picker, shown in the TaskDetailPanel
+export const ReminderEditor: React.FC<Props> = ({ task, inputClass }) => {
+    const [permission, setPermission] = useState(() => notificationsSupported() ? Notification.permission : 'denied');
+    const [choice, setChoice] = useState('');
+    const [absoluteTime, setAbsoluteTime] = useState('');
+    // When the panel opened, to hide a snooze that has already passed
+    const [now] = useState(() => Date.now());
+    const list = task.reminders || [];
+
+    const save = (next: Reminder[]) => actions.updateTask(task.id, { reminders: next });
+
+    const add = (reminder: Reminder) => {
+        save([...list, reminder]);
+        setChoice('');
+        setAbsoluteTime('');
+    };
+
+    const handleChoice = (value: string) => {
+        if (value === 'at') {
+            setChoice(value);
+            return;
+        }
+        if (value === '') return;
+        const minutes = parseInt(value, 10);
+        if (!list.some(r => r.type === 'before' && r.minutes === minutes)) add({ id: crypto.randomUUID(), type: 'before', minutes });
+        setChoice('');
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-sm font-semibold text-theme-text">
+                <Bell size={16} className="text-amber-500" /> Reminders
+            </div>
+
+            {list.map(reminder => (
+                <div key={reminder.id} className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-theme-input-bg border border-theme-border text-sm text-theme-text">
+                    <span>{describeReminder(reminder)}</span>
+                    <button
+                        onClick={() => save(list.filter(r => r.id !== reminder.id))}
+                        className="p-0.5 rounded text-theme-muted hover:text-rose-400 transition-colors"
+                        title="Remove reminder"
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            ))}
+            {task.snoozedUntil && task.snoozedUntil > now && (
+                <p className="text-xs text-theme-muted">Snoozed until {format(task.snoozedUntil, 'HH:mm')}</p>
+            )}
+
+            <select value={choice} onChange={(e) => handleChoice(e.target.value)} className={inputClass}>
+                <option value="">Add a reminder…</option>
+                {REMINDER_PRESETS.map(minutes => (
+                    <option key={minutes} value={minutes} disabled={!task.dueDate}>
+                        {describeReminder({ id: '', type: 'before', minutes })}
+                    </option>
+                ))}
+                <option value="at">At a specific time…</option>
+            </select>
+            {!task.dueDate && list.some(r => r.type === 'before') && (
+                <p className="text-xs text-theme-muted">Reminders before the due time need a due date.</p>
+            )}
+            {list.length > 0 && (
+                <p className="text-xs text-theme-muted">Reminders show while the app is open in a tab, even in the background.</p>
+            )}
+
+            {choice === 'at' && (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="datetime-local"
+                        value={absoluteTime}
+                        onChange={(e) => setAbsoluteTime(e.target.value)}
+                        className={inputClass}
+                    />
+                    <button
+                        onClick={() => add({ id: crypto.randomUUID(), type: 'at', time: new Date(absoluteTime).getTime() })}
+                        disabled={!absoluteTime}
+                        className="px-3 py-2 bg-theme-accent hover:bg-theme-accent-hover text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+                    >
+                        Add
+                    </button>
+                </div>
+            )}
+
+            {list.length > 0 && permission !== 'granted' && (
+                permission === 'denied' ? (
+                    <p className="text-xs text-rose-500 flex items-center gap-1.5">
+                        <BellOff size={12} /> Notifications are blocked for this site, so reminders can't be shown.
+                    </p>
+                ) : (
+                    <button
+                        onClick={async () => setPermission(await reminders.requestPermission())}
+                        className="text-xs text-theme-accent hover:underline self-start"
+                    >
+                        Allow notifications to get these reminders
+                    </button>
+                )
+            )}
+        </div>
+    );
+};
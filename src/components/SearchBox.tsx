@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { Search } from 'lucide-react';
+import { clsx } from 'clsx';
+import { parseQuery } from '../db/search';
+
+type Props = {
+    value: string;
+    onChange: (value: string) => void;
+};
+
+const SYNTAX_HELP = 'Filters: tag:work -tag:later due:today due:<2026-11-01 priority:<=2 is:completed is:focus has:notes notes:"…" parent:"…"\nCombine with AND, OR, NOT and ( )';
+
+export const SearchBox: React.FC<Props> = ({ value, onChange }) => {
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const parsed = parseQuery(value);
+    const error = parsed.ok ? null : parsed.error;
+
+    return (
+        <div className="relative max-w-xs w-full">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-theme-muted" />
+            </div>
+            <input
+                type="text"
+                placeholder="Search tasks..."
+                title={SYNTAX_HELP}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                onScroll={(e) => {
+                    if (overlayRef.current) overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+                }}
+                spellCheck={false}
+                className={clsx(
+                    "block w-full pl-10 pr-3 py-2 border rounded-xl leading-5 bg-theme-input-bg backdrop-blur-sm placeholder-theme-muted focus:outline-none focus:ring-2 focus:border-transparent focus:bg-theme-glass-solid sm:text-sm transition-all shadow-sm text-theme-text",
+                    error ? "border-rose-500/60 focus:ring-rose-500" : "border-theme-glass-border focus:ring-theme-accent"
+                )}
+            />
+
+            {/* Mirrors the input text invisibly so the malformed part can be underlined in place */}
+            {error && (
+                <div
+                    ref={overlayRef}
+                    aria-hidden
+                    className="absolute inset-0 pl-10 pr-3 py-2 border border-transparent leading-5 sm:text-sm whitespace-pre overflow-hidden pointer-events-none text-transparent"
+                >
+                    {value.slice(0, error.start)}
+                    <span className="underline decoration-wavy decoration-rose-500 underline-offset-4 bg-rose-500/15 rounded-sm">
+                        {value.slice(error.start, error.end) || ' '}
+                    </span>
+                    {value.slice(error.end)}
+                </div>
+            )}
+
+            {error && (
+                <div className="absolute top-full left-0 right-0 mt-1 z-50 px-3 py-1.5 rounded-lg border border-rose-500/40 bg-theme-glass-solid backdrop-blur-xl text-xs text-rose-500 shadow-sm">
+                    {error.message}
+                </div>
+            )}
+        </div>
+    );
+};
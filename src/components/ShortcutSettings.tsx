@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, RotateCcw, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useKeymap } from '../db/hooks';
+import { keymap, eventToBinding, formatBinding, SHORTCUTS, type ShortcutId } from '../db/keymap';
+
+type Props = {
+    onClose: () => void;
+};
+
+const GROUPS = [...new Set(SHORTCUTS.map(s => s.group))];
+
+// Lists every shortcut with its keys. Keys can be added by pressing them, removed, or reset to the defaults;
+// a shortcut without keys is disabled. Keys that another shortcut also uses where this one applies are flagged.
+export const ShortcutSettings: React.FC<Props> = ({ onClose }) => {
+    const bindings = useKeymap();
+    // The shortcut waiting for a key press
+    const [recording, setRecording] = useState<ShortcutId | null>(null);
+    const allDefault = SHORTCUTS.every(s => keymap.isDefault(s.id));
+
+    const handleRecordKeyDown = (e: React.KeyboardEvent, id: ShortcutId) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            setRecording(null);
+            return;
+        }
+        const binding = eventToBinding(e);
+        if (!binding) return;
+        keymap.setBindings(id, [...bindings[id], binding]);
+        setRecording(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 animate-in" onClick={onClose}>
+            <div
+                className="w-[36rem] max-w-[calc(100vw-2rem)] max-h-[85vh] bg-theme-glass-solid backdrop-blur-xl border border-theme-glass-border rounded-2xl shadow-lg p-6 flex flex-col gap-4"
+                onClick={e => e.stopPropagation()}
+                // Keys pressed in here don't reach the app's shortcuts
+                onKeyDown={e => e.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-theme-text-inv">Keyboard shortcuts</h2>
+                        <p className="text-sm text-theme-muted">Saved on this device. Remove every key of a shortcut to turn it off.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto -mx-2 px-2 flex flex-col gap-4">
+                    {GROUPS.map(group => (
+                        <div key={group} className="flex flex-col gap-1">
+                            <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider">{group}</span>
+                            {SHORTCUTS.filter(s => s.group === group).map(shortcut => {
+                                const conflicts = bindings[shortcut.id].flatMap(binding =>
+                                    keymap.findConflicts(shortcut.id, binding).map(other => ({ binding, other }))
+                                );
+                                return (
+                                    <div key={shortcut.id} className="flex flex-col gap-1 py-1.5 border-b border-theme-glass-border last:border-b-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className={clsx("flex-1 text-sm", bindings[shortcut.id].length ? "text-theme-text" : "text-theme-muted line-through")}>
+                                                {shortcut.label}
+                                            </span>
+                                            {bindings[shortcut.id].map(binding => (
+                                                <span
+                                                    key={binding}
+                                                    className={clsx(
+                                                        "flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md border text-xs font-mono",
+                                                        conflicts.some(c => c.binding === binding)
+                                                            ? "border-amber-500 text-amber-500"
+                                                            : "border-theme-border text-theme-text bg-theme-input-bg"
+                                                    )}
+                                                >
+                                                    {formatBinding(binding)}
+                                                    <button
+                                                        onClick={() => keymap.setBindings(shortcut.id, bindings[shortcut.id].filter(b => b !== binding))}
+                                                        className="p-0.5 rounded text-theme-muted hover:text-theme-text"
+                                                        title="Remove this key"
+                                                    >
+                                                        <X size={10} />
+                                                    </button>
+                                                </span>
+                                            ))}
+                                            {recording === shortcut.id ? (
+                                                <button
+                                                    autoFocus
+                                                    onKeyDown={e => handleRecordKeyDown(e, shortcut.id)}
+                                                    onBlur={() => setRecording(null)}
+                                                    className="px-2 py-0.5 rounded-md border border-theme-accent text-xs text-theme-accent animate-pulse"
+                                                >
+                                                    Press keys… (Esc cancels)
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    onClick={() => setRecording(shortcut.id)}
+                                                    className="p-1 rounded-md text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors"
+                                                    title="Add a key"
+                                                >
+                                                    <Plus size={14} />
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => keymap.reset(shortcut.id)}
+                                                disabled={keymap.isDefault(shortcut.id)}
+                                                className="p-1 rounded-md text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors disabled:invisible"
+                                                title={`Reset to ${shortcut.defaults.map(formatBinding).join(', ') || 'none'}`}
+                                            >
+                                                <RotateCcw size={14} />
+                                            </button>
+                                        </div>
+                                        {conflicts.map(({ binding, other }) => (
+                                            <span key={`${binding}-${other.id}`} className="flex items-center gap-1 text-xs text-amber-500">
+                                                <AlertTriangle size={12} />
+                                                {formatBinding(binding)} is also set for "{other.label}"
+                                            </span>
+                                        ))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end">
+                    <button
+                        onClick={() => keymap.resetAll()}
+                        disabled={allDefault}
+                        className="px-4 py-2 rounded-xl text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors text-sm font-medium disabled:opacity-40"
+                    >
+                        Reset all to defaults
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,21 +1,32 @@
 import React, { useState } from 'react';
-import { type SectionFilter, type StatusFilter } from '../db/hooks';
-import { ListTodo, Calendar, Clock, Archive, CalendarDays, Sun, Moon, Sparkles, Target, LogOut } from 'lucide-react';
+import { type PriorityFilter, type SectionFilter, type StatusFilter } from '../db/hooks';
+import { ListTodo, Calendar, Clock, Archive, CalendarDays, Sun, Moon, Sparkles, Target, LogOut, Trash2, Keyboard } from 'lucide-react';
 import { clsx } from 'clsx';
 import { format } from 'date-fns';
-import { auth } from '../db/firebase';
-import { signOut } from 'firebase/auth';
+import { getSession } from '../db/repository';
+import { type SmartView } from '../db/views';
+import { SmartViewList } from './SmartViewList';
+import { DataMenu } from './DataMenu';
+import { CompletionSettings } from './CompletionSettings';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { PriorityFlag } from './PriorityFlag';
+import { PRIORITIES, PRIORITY_NAMES, priorityLabel } from '../db/priority';
 
 type Props = {
     currentFilter: SectionFilter;
     onFilterChange: (f: SectionFilter) => void;
     statusFilter: StatusFilter;
     onStatusFilterChange: (s: StatusFilter) => void;
+    priorityFilter: PriorityFilter;
+    onPriorityFilterChange: (p: PriorityFilter) => void;
+    searchQuery: string;
+    onApplyView: (view: SmartView) => void;
     theme: 'light' | 'twilight' | 'midnight';
     onThemeChange: (t: 'light' | 'twilight' | 'midnight') => void;
+    onShowShortcuts: () => void;
 };
 
-export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, statusFilter, onStatusFilterChange, theme, onThemeChange }) => {
+export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, statusFilter, onStatusFilterChange, priorityFilter, onPriorityFilterChange, searchQuery, onApplyView, theme, onThemeChange, onShowShortcuts }) => {
     const [showDatePicker, setShowDatePicker] = useState(false);
     const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
     const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
@@ -29,6 +40,7 @@ export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, status
         { id: 'upcoming', icon: Clock, label: 'Upcoming', color: 'text-blue-600' },
         { id: 'past', icon: Archive, label: 'Past / Completed', color: 'text-orange-600' },
         { id: 'no-date', icon: CalendarDays, label: 'No Date', color: 'text-slate-500' },
+        { id: 'trash', icon: Trash2, label: 'Trash', color: 'text-rose-500' },
     ] as const;
 
     const handleApplyDateRange = () => {
@@ -62,6 +74,9 @@ export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, status
                     T
                 </div>
                 <span className="font-bold text-xl tracking-tight text-theme-text-inv">Tasks</span>
+                <div className="ml-auto">
+                    <SyncStatusIndicator />
+                </div>
             </div>
 
             <nav className="flex flex-col gap-1">
@@ -126,6 +141,16 @@ export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, status
                     )}
                 </div>
 
+                <div className="mt-4">
+                    <SmartViewList
+                        currentFilter={currentFilter}
+                        statusFilter={statusFilter}
+                        priorityFilter={priorityFilter}
+                        searchQuery={searchQuery}
+                        onApplyView={onApplyView}
+                    />
+                </div>
+
                 <div className="mt-4 flex flex-col gap-2">
                     <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider px-3">Status</span>
                     <div className="flex rounded-lg bg-theme-input-bg p-1 border border-theme-glass-border">
@@ -146,7 +171,38 @@ export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, status
                     </div>
                 </div>
 
+                <div className="mt-4 flex flex-col gap-2">
+                    <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider px-3">Priority</span>
+                    <div className="flex rounded-lg bg-theme-input-bg p-1 border border-theme-glass-border">
+                        {(['all', ...PRIORITIES] as const).map(priority => (
+                            <button
+                                key={priority}
+                                onClick={() => onPriorityFilterChange(priority)}
+                                title={priority === 'all' ? 'Any priority' : `${priorityLabel(priority)} – ${PRIORITY_NAMES[priority]}`}
+                                className={clsx(
+                                    "flex-1 flex items-center justify-center gap-1 text-xs py-1.5 rounded-md font-medium transition-all",
+                                    priorityFilter === priority
+                                        ? "bg-theme-glass-solid text-theme-text shadow-sm border border-theme-border"
+                                        : "text-theme-muted hover:text-theme-text"
+                                )}
+                            >
+                                {priority === 'all' ? 'All' : <><PriorityFlag priority={priority} size={12} />{priority}</>}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-4 flex flex-col gap-2">
+                    <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider px-3">Subtasks</span>
+                    <CompletionSettings />
+                </div>
+
                 <div className="mt-auto flex flex-col gap-2 pt-4">
+                    <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider px-3">Data</span>
+                    <DataMenu />
+                </div>
+
+                <div className="mt-4 flex flex-col gap-2">
                     <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider px-3">Theme</span>
                     <div className="flex gap-2">
                         <button onClick={() => onThemeChange('light')} className={clsx("flex-1 p-2 rounded-lg flex justify-center border transition-colors", theme === 'light' ? "bg-theme-accent-bg border-theme-accent text-theme-accent" : "border-theme-glass-border text-theme-muted hover:bg-theme-hover")} title="Light"><Sun size={18} /></button>
@@ -155,15 +211,25 @@ export const Sidebar: React.FC<Props> = ({ currentFilter, onFilterChange, status
                     </div>
                 </div>
 
-                <div className="mt-4 pt-4 border-t border-theme-glass-border">
-                    <button
-                        onClick={() => signOut(auth)}
-                        className="w-full flex items-center justify-center gap-2 p-2 rounded-lg text-rose-500 hover:bg-rose-500/10 transition-colors text-sm font-medium"
-                    >
-                        <LogOut size={16} />
-                        Sign Out
-                    </button>
-                </div>
+                <button
+                    onClick={onShowShortcuts}
+                    className="mt-2 w-full flex items-center justify-center gap-2 p-2 rounded-lg border border-theme-glass-border text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors text-sm font-medium"
+                >
+                    <Keyboard size={16} />
+                    Keyboard shortcuts
+                </button>
+
+                {getSession().requiresSignIn && (
+                    <div className="mt-4 pt-4 border-t border-theme-glass-border">
+                        <button
+                            onClick={() => getSession().signOut()}
+                            className="w-full flex items-center justify-center gap-2 p-2 rounded-lg text-rose-500 hover:bg-rose-500/10 transition-colors text-sm font-medium"
+                        >
+                            <LogOut size={16} />
+                            Sign Out
+                        </button>
+                    </div>
+                )}
             </nav>
         </aside>
     );
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Star, Bookmark, Briefcase, Home, Flag, Tag, Zap, Heart, Plus, Pencil, X, Check } from 'lucide-react';
+import { clsx } from 'clsx';
+import { type PriorityFilter, type SectionFilter, type StatusFilter, useSmartViews, useSmartViewCounts, useSmartViewsSaveFailed } from '../db/hooks';
+import { smartViews, isViewActive, SMART_VIEW_ICONS, type SmartView, type SmartViewIcon } from '../db/views';
+
+const ICONS: Record<SmartViewIcon, React.ElementType> = {
+    star: Star,
+    bookmark: Bookmark,
+    briefcase: Briefcase,
+    home: Home,
+    flag: Flag,
+    tag: Tag,
+    zap: Zap,
+    heart: Heart
+};
+
+type Props = {
+    currentFilter: SectionFilter;
+    statusFilter: StatusFilter;
+    priorityFilter: PriorityFilter;
+    searchQuery: string;
+    onApplyView: (view: SmartView) => void;
+};
+
+type Editing = { id: string | null; name: string; icon: SmartViewIcon; useCurrent: boolean };
+
+export const SmartViewList: React.FC<Props> = ({ currentFilter, statusFilter, priorityFilter, searchQuery, onApplyView }) => {
+    const views = useSmartViews();
+    const counts = useSmartViewCounts();
+    const saveFailed = useSmartViewsSaveFailed();
+    const [editing, setEditing] = useState<Editing | null>(null);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+
+    const current = { filter: currentFilter, statusFilter, priorityFilter, searchQuery: searchQuery.trim() };
+
+    const handleSave = () => {
+        if (!editing || !editing.name.trim()) return;
+        const details = { name: editing.name.trim(), icon: editing.icon };
+        if (editing.id === null) smartViews.create({ ...details, ...current });
+        else smartViews.update(editing.id, editing.useCurrent ? { ...details, ...current } : details);
+        setEditing(null);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number) => {
+        e.preventDefault();
+        if (draggedId) {
+            const from = views.findIndex(v => v.id === draggedId);
+            // Dropping below its own position shifts every later view up by one
+            smartViews.move(draggedId, from !== -1 && from < index ? index - 1 : index);
+        }
+        setDraggedId(null);
+    };
+
+    const editor = editing && (
+        <div className="flex flex-col gap-2 p-2 rounded-lg bg-theme-input-bg border border-theme-border animate-in">
+            <input
+                autoFocus
+                value={editing.name}
+                onChange={e => setEditing({ ...editing, name: e.target.value })}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') handleSave();
+                    if (e.key === 'Escape') setEditing(null);
+                }}
+                placeholder="View name"
+                className="bg-transparent border-b border-theme-border px-1 py-1 text-sm text-theme-text focus:outline-none focus:border-theme-accent"
+            />
+            <div className="flex flex-wrap gap-1">
+                {SMART_VIEW_ICONS.map(icon => {
+                    const Icon = ICONS[icon];
+                    return (
+                        <button
+                            key={icon}
+                            onClick={() => setEditing({ ...editing, icon })}
+                            className={clsx(
+                                "p-1.5 rounded-md border transition-colors",
+                                editing.icon === icon
+                                    ? "bg-theme-accent-bg border-theme-accent text-theme-accent"
+                                    : "border-transparent text-theme-muted hover:bg-theme-hover"
+                            )}
+                            title={icon}
+                        >
+                            <Icon size={14} />
+                        </button>
+                    );
+                })}
+            </div>
+            {editing.id !== null && (
+                <label className="flex items-center gap-2 text-xs text-theme-muted">
+                    <input
+                        type="checkbox"
+                        checked={editing.useCurrent}
+                        onChange={e => setEditing({ ...editing, useCurrent: e.target.checked })}
+                    />
+                    Replace filters with the current ones
+                </label>
+            )}
+            <div className="flex justify-end gap-1">
+                <button onClick={() => setEditing(null)} className="p-1 rounded-md text-theme-muted hover:bg-theme-hover" title="Cancel">
+                    <X size={16} />
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!editing.name.trim()}
+                    className="p-1 rounded-md text-theme-accent hover:bg-theme-accent-bg disabled:opacity-40"
+                    title="Save"
+                >
+                    <Check size={16} />
+                </button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between px-3 mb-1">
+                <span className="text-xs font-semibold text-theme-muted uppercase tracking-wider">Smart Views</span>
+                <button
+                    onClick={() => setEditing({ id: null, name: '', icon: 'star', useCurrent: true })}
+                    className="p-1 rounded-md text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors"
+                    title="Save current view"
+                >
+                    <Plus size={14} />
+                </button>
+            </div>
+            {saveFailed && (
+                <p className="px-3 text-xs text-rose-500">Changes to these views could not be saved and are lost on reload.</p>
+            )}
+
+            {editing?.id === null && editor}
+
+            {views.map((view, index) => {
+                if (editing?.id === view.id) return <React.Fragment key={view.id}>{editor}</React.Fragment>;
+                const Icon = ICONS[view.icon] || Star;
+                const active = isViewActive(view, currentFilter, statusFilter, priorityFilter, searchQuery);
+                return (
+                    <div
+                        key={view.id}
+                        draggable
+                        onDragStart={() => setDraggedId(view.id)}
+                        onDragEnd={() => setDraggedId(null)}
+                        onDragOver={e => e.preventDefault()}
+                        onDrop={e => handleDrop(e, index)}
+                        onClick={() => onApplyView(view)}
+                        className={clsx(
+                            "group flex items-center gap-3 px-3 py-2 rounded-lg transition-all text-sm font-medium cursor-pointer",
+                            active
+                                ? "bg-theme-accent-bg text-theme-accent shadow-sm border border-theme-accent-bg"
+                                : "text-theme-muted hover:text-theme-text hover:bg-theme-hover",
+                            draggedId === view.id && "opacity-50"
+                        )}
+                    >
+                        <Icon size={18} className="text-theme-accent flex-none" />
+                        <span className="flex-1 truncate">{view.name}</span>
+                        <span className="text-xs text-theme-muted group-hover:hidden">{counts.get(view.id) ?? ''}</span>
+                        <div className="hidden group-hover:flex items-center gap-0.5">
+                            <button
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    setEditing({ id: view.id, name: view.name, icon: view.icon, useCurrent: false });
+                                }}
+                                className="p-0.5 rounded text-theme-muted hover:text-theme-text"
+                                title="Edit view"
+                            >
+                                <Pencil size={13} />
+                            </button>
+                            <button
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    smartViews.remove(view.id);
+                                }}
+                                className="p-0.5 rounded text-theme-muted hover:text-rose-500"
+                                title="Delete view"
+                            >
+                                <X size={13} />
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {/* Drop target for moving a view to the end */}
+            {draggedId && (
+                <div
+                    onDragOver={e => e.preventDefault()}
+                    onDrop={e => handleDrop(e, views.length)}
+                    className="h-6 rounded-lg border border-dashed border-theme-border"
+                />
+            )}
+
+            {views.length === 0 && !editing && (
+                <span className="px-3 text-xs text-theme-muted italic">Save the current filters and search with +</span>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ArrowDownWideNarrow } from 'lucide-react';
+import { clsx } from 'clsx';
+import { SORT_MODES, type SortMode } from '../db/sorting';
+
+type Props = {
+    value: SortMode;
+    onChange: (mode: SortMode) => void;
+};
+
+// Sort picker for the current view: an icon button over an invisible native select
+export const SortMenu: React.FC<Props> = ({ value, onChange }) => {
+    const label = SORT_MODES.find(m => m.id === value)?.label ?? 'Manual';
+    return (
+        <div
+            className={clsx(
+                "relative p-2 rounded-xl border transition-colors shadow-sm",
+                value === 'manual'
+                    ? "border-theme-glass-border text-theme-muted hover:text-theme-text hover:bg-theme-hover"
+                    : "border-theme-accent bg-theme-accent-bg text-theme-accent"
+            )}
+            title={value === 'manual'
+                ? 'Sort: Manual (drag tasks to reorder)'
+                : `Sort: ${label}. Switch back to Manual to reorder by dragging`}
+        >
+            <ArrowDownWideNarrow size={18} />
+            <select
+                value={value}
+                onChange={(e) => onChange(e.target.value as SortMode)}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                aria-label="Sort tasks by"
+            >
+                {SORT_MODES.map(mode => (
+                    <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
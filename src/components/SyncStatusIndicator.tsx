@@ -0,0 +1,25 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useSyncStatus } from '../db/hooks';
+
+// Offline / N pending / synced badge for backends that sync with a server
+export const SyncStatusIndicator: React.FC = () => {
+    const status = useSyncStatus();
+    if (!status) return null;
+
+    const { online, pendingWrites, error } = status;
+    const pending = pendingWrites > 0 ? `${pendingWrites} pending` : null;
+    const [Icon, label, color, title] =
+        !online ? [CloudOff, pending ? `Offline · ${pending}` : 'Offline', 'text-amber-500', 'Changes are saved on this device and sync when you are back online']
+        : error ? [AlertTriangle, 'Sync error', 'text-rose-500', `The server rejected a change: ${error}`]
+        : pending ? [RefreshCw, pending, 'text-theme-muted', 'Uploading changes']
+        : [Cloud, 'Synced', 'text-emerald-500', 'All changes are saved to the cloud'];
+
+    return (
+        <div className={clsx("flex items-center gap-1.5 text-xs font-medium whitespace-nowrap", color)} title={title} role="status">
+            <Icon size={14} className={clsx(Icon === RefreshCw && "animate-spin")} />
+            {label}
+        </div>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { Check, Repeat, Tag as TagIcon } from 'lucide-react';
+import { clsx } from 'clsx';
+import { type Task } from '../db/db';
+import { actions } from '../db/actions';
+import { getBoardColumns, getColumnChanges, type BoardColumn, type BoardGrouping } from '../db/board';
+import { formatDue, isOverdue } from '../db/dates';
+import { getPriority } from '../db/priority';
+import { getSortComparator, type SortMode } from '../db/sorting';
+import { useSubtreeProgress } from '../db/hooks';
+import { keymap, isTypingIn } from '../db/keymap';
+import { PriorityFlag } from './PriorityFlag';
+import { ProgressBadge } from './ProgressBadge';
+import { shouldCompleteSubtasks } from './completion';
+import { type TaskTreeHandle } from './TaskTree';
+
+type Props = {
+    // The tasks of the view, search included
+    tasks: Task[];
+    grouping: BoardGrouping;
+    sortMode?: SortMode;
+    selectedTaskId: string | null;
+    setSelectedTaskId: (id: string | null) => void;
+};
+
+// Where a dragged card would land: before the card at `index` of a column
+type DropTarget = { columnId: string; index: number };
+
+// The view's tasks as cards in columns. Dragging a card to another column changes the field the columns stand
+// for; dragging within a column reorders it, unless the view is sorted by something other than the manual order.
+export const TaskBoard = forwardRef<TaskTreeHandle, Props>(({ tasks, grouping, sortMode = 'manual', selectedTaskId, setSelectedTaskId }, ref) => {
+    const progress = useSubtreeProgress();
+    const [dragged, setDragged] = useState<{ taskId: string; columnId: string } | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+    const compare = getSortComparator(sortMode);
+    const columns = getBoardColumns(tasks, grouping).map(column =>
+        compare ? { ...column, tasks: [...column.tasks].sort(compare) } : column
+    );
+
+    useImperativeHandle(ref, () => ({
+        addRootTask: async () => {
+            const newTask = await actions.addTask('', 'root', [], null, null);
+            setSelectedTaskId(newTask.id);
+        },
+        getSelection: () => selectedTaskId ? [selectedTaskId] : [],
+        revealTask: (id: string) => {
+            setSelectedTaskId(id);
+            document.querySelector(`[data-card-id="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+        }
+    }));
+
+    // The same Delete shortcut as the list
+    useEffect(() => {
+        const handleGlobalKeyDown = (e: KeyboardEvent) => {
+            if (!selectedTaskId || !keymap.matches(e, 'deleteTask') || isTypingIn(document.activeElement)) return;
+            e.preventDefault();
+            actions.deleteTask(selectedTaskId);
+            setSelectedTaskId(null);
+        };
+        window.addEventListener('keydown', handleGlobalKeyDown);
+        return () => window.removeEventListener('keydown', handleGlobalKeyDown);
+    }, [selectedTaskId, setSelectedTaskId]);
+
+    const canDropIn = (column: BoardColumn) => !!dragged && (column.id === dragged.columnId ? !compare : column.acceptsDrops);
+
+    const handleCardDragOver = (e: React.DragEvent, column: BoardColumn, index: number) => {
+        if (!canDropIn(column)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const after = e.clientY > rect.top + rect.height / 2;
+        setDropTarget({ columnId: column.id, index: index + (after ? 1 : 0) });
+    };
+
+    const handleColumnDragOver = (e: React.DragEvent, column: BoardColumn) => {
+        if (!canDropIn(column)) return;
+        e.preventDefault();
+        if (dropTarget?.columnId !== column.id) setDropTarget({ columnId: column.id, index: column.tasks.length });
+    };
+
+    const handleDrop = (e: React.DragEvent, column: BoardColumn) => {
+        e.preventDefault();
+        const target = dropTarget;
+        const source = dragged;
+        setDragged(null);
+        setDropTarget(null);
+        if (!source || !target || !canDropIn(column)) return;
+
+        const moved = column.id !== source.columnId;
+        const open = progress.get(source.taskId);
+        // Completing by dropping into Completed asks about open subtasks like the checkbox does
+        const completeSubtasks = moved && grouping === 'status' && column.id === 'completed'
+            ? shouldCompleteSubtasks(open ? open.total - open.done : 0)
+            : undefined;
+        actions.moveOnBoard(
+            [source.taskId],
+            column.tasks.map(t => t.id),
+            // A sorted column has no manual order to drop into, so cards join at the end
+            compare ? Infinity : target.index,
+            task => moved ? getColumnChanges(task, grouping, source.columnId, column.id) : {},
+            column.label,
+            completeSubtasks
+        );
+    };
+
+    const toggleCompleted = (task: Task) => {
+        if (task.completed) actions.toggleTaskCompletion(task.id, false);
+        else {
+            const open = progress.get(task.id);
+            actions.toggleTaskCompletion(task.id, true, shouldCompleteSubtasks(open ? open.total - open.done : 0));
+        }
+    };
+
+    const dropLine = <div className="h-0.5 -my-1 bg-purple-500 rounded-full shadow-[0_0_8px_rgba(168,85,247,0.5)]" />;
+
+    return (
+        <div className="w-full h-full flex gap-4 p-4 overflow-x-auto" onClick={() => setSelectedTaskId(null)}>
+            {columns.map(column => (
+                <div
+                    key={column.id}
+                    onDragOver={(e) => handleColumnDragOver(e, column)}
+                    onDrop={(e) => handleDrop(e, column)}
+                    className={clsx(
+                        "flex-none w-72 flex flex-col rounded-2xl border bg-theme-glass transition-colors",
+                        dropTarget?.columnId === column.id ? "border-theme-accent" : "border-theme-glass-border",
+                        dragged && !canDropIn(column) && "opacity-50"
+                    )}
+                >
+                    <div className="flex items-center justify-between px-4 py-3">
+                        <span className="text-sm font-semibold text-theme-text truncate">{column.label}</span>
+                        <span className="text-xs font-medium text-theme-muted">{column.tasks.length}</span>
+                    </div>
+
+                    <div className="flex-1 flex flex-col gap-2 px-3 pb-3 overflow-y-auto min-h-[4rem]">
+                        {column.tasks.map((task, index) => (
+                            <React.Fragment key={task.id}>
+                                {dropTarget?.columnId === column.id && dropTarget.index === index && dropLine}
+                                <div
+                                    data-card-id={task.id}
+                                    draggable
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        setDragged({ taskId: task.id, columnId: column.id });
+                                    }}
+                                    onDragEnd={() => {
+                                        setDragged(null);
+                                        setDropTarget(null);
+                                    }}
+                                    onDragOver={(e) => handleCardDragOver(e, column, index)}
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setSelectedTaskId(task.id);
+                                    }}
+                                    className={clsx(
+                                        "group flex flex-col gap-2 p-3 rounded-xl border bg-theme-glass-solid shadow-sm cursor-grab active:cursor-grabbing transition-all",
+                                        selectedTaskId === task.id ? "border-theme-accent ring-1 ring-theme-accent" : "border-theme-border hover:border-theme-accent",
+                                        dragged?.taskId === task.id && "opacity-40",
+                                        task.completed && "opacity-60"
+                                    )}
+                                >
+                                    <div className="flex items-start gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                toggleCompleted(task);
+                                            }}
+                                            className={clsx(
+                                                "flex-none mt-0.5 w-4 h-4 rounded-[5px] border-[2px] flex items-center justify-center transition-all",
+                                                task.completed ? "bg-emerald-500 border-emerald-500 text-white" : "task-checkbox-ring"
+                                            )}
+                                        >
+                                            {task.completed && <Check size={10} strokeWidth={3} />}
+                                        </button>
+                                        <span className={clsx("flex-1 text-sm font-medium break-words", task.completed ? "line-through text-theme-muted" : "text-theme-text")}>
+                                            {task.text || <span className="italic text-theme-muted">Untitled</span>}
+                                        </span>
+                                        {getPriority(task) < 4 && <PriorityFlag priority={getPriority(task)} size={14} />}
+                                    </div>
+
+                                    {(task.dueDate || task.recurrence || task.tags?.length > 0) && (
+                                        <div className="flex flex-wrap items-center gap-1.5 text-xs font-medium text-theme-muted">
+                                            {task.dueDate && (
+                                                <span className={clsx("px-1.5 py-0.5 rounded-md bg-theme-input-bg", isOverdue(task) ? "text-rose-500" : "text-theme-accent")}>
+                                                    {formatDue(task)}
+                                                </span>
+                                            )}
+                                            {task.recurrence && <Repeat size={12} />}
+                                            {task.tags?.map(tag => (
+                                                <span key={tag} className="flex items-center gap-1 px-1.5 py-0.5 rounded-md border border-theme-border text-blue-400">
+                                                    <TagIcon size={10} /> {tag}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {progress.get(task.id) && <ProgressBadge progress={progress.get(task.id)!} className="w-full" />}
+                                </div>
+                            </React.Fragment>
+                        ))}
+                        {dropTarget?.columnId === column.id && dropTarget.index >= column.tasks.length && dropLine}
+                        {column.tasks.length === 0 && !dragged && (
+                            <div className="text-theme-muted italic text-xs text-center py-4">No tasks</div>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+});
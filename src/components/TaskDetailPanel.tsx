@@ -1,8 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { type Task } from '../db/db';
+import { type Task, type RecurrenceRule } from '../db/db';
 import { actions } from '../db/actions';
-import { X, Calendar, FileText, Tag as TagIcon, Hash } from 'lucide-react';
-import { format } from 'date-fns';
+import { createDefaultRecurrence, describeRecurrence, WEEKDAY_LABELS } from '../db/recurrence';
+import { X, Calendar, FileText, Tag as TagIcon, Hash, Repeat, Globe } from 'lucide-react';
+import { clsx } from 'clsx';
+import { formatDue, formatDuration, getLocalTimeZone, getTimeZones, todayString } from '../db/dates';
+import { buildOutline, outlineToMarkdown } from '../db/outline';
+import { CopyMarkdownButton } from './CopyMarkdownButton';
+import { ReminderEditor } from './ReminderEditor';
+import { PriorityFlag } from './PriorityFlag';
+import { getPriority, PRIORITIES, PRIORITY_NAMES, priorityLabel, toStoredPriority } from '../db/priority';
+import { withShortcut } from '../db/keymap';
+
+// Duration choices in minutes; a task's own value is added when it isn't one of these
+const DURATIONS = [15, 30, 45, 60, 90, 120, 180, 240, 480];
 
 type Props = {
     taskId: string;
@@ -42,6 +53,40 @@ export const TaskDetailPanel: React.FC<Props> = ({ taskId, tasks, onClose }) =>
         actions.updateTask(task.id, { tags: task.tags.filter(t => t !== tagToRemove) });
     };
 
+    const rule = task.recurrence ?? null;
+    const endType = rule?.endDate ? 'date' : rule?.count != null ? 'count' : 'never';
+
+    const handleFrequencyChange = (value: string) => {
+        if (value === 'none') {
+            actions.updateTask(task.id, { recurrence: null });
+        } else if (rule) {
+            actions.updateTask(task.id, { recurrence: { ...rule, frequency: value as RecurrenceRule['frequency'] } });
+        } else {
+            actions.updateTask(task.id, { recurrence: createDefaultRecurrence(value as RecurrenceRule['frequency']) });
+        }
+    };
+
+    const updateRule = (changes: Partial<RecurrenceRule>) => {
+        if (!rule) return;
+        actions.updateTask(task.id, { recurrence: { ...rule, ...changes } });
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (!rule) return;
+        const weekdays = rule.weekdays.includes(day)
+            ? rule.weekdays.filter(d => d !== day)
+            : [...rule.weekdays, day].sort();
+        updateRule({ weekdays });
+    };
+
+    const handleEndTypeChange = (value: string) => {
+        if (value === 'date') updateRule({ endDate: task.dueDate || todayString(), count: null });
+        else if (value === 'count') updateRule({ endDate: null, count: Math.max(rule?.occurrence ?? 1, 10) });
+        else updateRule({ endDate: null, count: null });
+    };
+
+    const inputClass = "w-full bg-theme-input-bg border border-theme-border rounded-lg px-3 py-2 text-sm text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent transition-all";
+
     return (
         <div className="w-80 h-full border-l border-theme-glass-border bg-theme-glass-solid flex-shrink-0 z-10 flex flex-col relative animate-in slide-in-from-right-8 overflow-y-auto">
             <div className="sticky top-0 bg-theme-glass-solid backdrop-blur-md z-20 border-b border-theme-border px-4 py-4 flex items-center justify-between">
@@ -49,12 +94,19 @@ export const TaskDetailPanel: React.FC<Props> = ({ taskId, tasks, onClose }) =>
                     <Hash size={18} className="text-theme-muted" />
                     Task Details
                 </h2>
-                <button
-                    onClick={onClose}
-                    className="p-1.5 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors"
-                >
-                    <X size={18} />
-                </button>
+                <div className="flex items-center gap-1">
+                    <CopyMarkdownButton
+                        title="Copy with subtasks as Markdown"
+                        className="p-1.5 rounded-lg"
+                        getMarkdown={async () => outlineToMarkdown(buildOutline(await actions.getSubtree(task.id), task.id))}
+                    />
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg text-theme-muted hover:bg-theme-hover hover:text-theme-text transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
             </div>
 
             <div className="p-5 flex flex-col gap-6">
@@ -73,18 +125,182 @@ export const TaskDetailPanel: React.FC<Props> = ({ taskId, tasks, onClose }) =>
                     />
                 </div>
 
+                <div className="flex flex-col gap-2">
+                    <div className="flex items-center gap-2 text-sm font-semibold text-theme-text">
+                        <PriorityFlag priority={1} size={16} /> Priority
+                    </div>
+                    <div className="flex rounded-lg bg-theme-input-bg p-1 border border-theme-border">
+                        {PRIORITIES.map(priority => (
+                            <button
+                                key={priority}
+                                onClick={() => getPriority(task) !== priority && actions.updateTask(task.id, { priority: toStoredPriority(priority) })}
+                                title={withShortcut(PRIORITY_NAMES[priority], `priority${priority}`)}
+                                className={clsx(
+                                    "flex-1 flex items-center justify-center gap-1.5 text-xs py-1.5 rounded-md font-medium transition-all",
+                                    getPriority(task) === priority
+                                        ? "bg-theme-glass-solid text-theme-text shadow-sm border border-theme-border"
+                                        : "text-theme-muted hover:text-theme-text"
+                                )}
+                            >
+                                <PriorityFlag priority={priority} size={12} /> {priorityLabel(priority)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
                 <div className="flex flex-col gap-2">
                     <div className="flex items-center gap-2 text-sm font-semibold text-theme-text">
                         <Calendar size={16} className="text-theme-accent" /> Due Date
                     </div>
                     <input
                         type="date"
-                        value={task.dueDate ? format(new Date(task.dueDate), 'yyyy-MM-dd') : ''}
+                        value={task.dueDate || ''}
                         onChange={(e) => actions.updateTask(task.id, { dueDate: e.target.value || null })}
                         className="w-full bg-theme-input-bg border border-theme-border rounded-lg px-3 py-2 text-sm text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent transition-all"
                     />
+
+                    {task.dueDate && (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="time"
+                                    value={task.dueTime || ''}
+                                    onChange={(e) => actions.updateTask(task.id, { dueTime: e.target.value || null })}
+                                    className={inputClass}
+                                    title="Due time"
+                                />
+                                <select
+                                    value={task.duration ?? ''}
+                                    onChange={(e) => actions.updateTask(task.id, { duration: e.target.value ? parseInt(e.target.value, 10) : null })}
+                                    disabled={!task.dueTime}
+                                    className={clsx(inputClass, "disabled:opacity-40")}
+                                    title="Duration"
+                                >
+                                    <option value="">No duration</option>
+                                    {Array.from(new Set([...DURATIONS, ...(task.duration ? [task.duration] : [])])).sort((a, b) => a - b).map(minutes => (
+                                        <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {task.dueTime && (
+                                <>
+                                    <select
+                                        value={task.timeZone ?? ''}
+                                        onChange={(e) => actions.updateTask(task.id, { timeZone: e.target.value || null })}
+                                        className={inputClass}
+                                        title="Time zone"
+                                    >
+                                        <option value="">Local time, wherever I am</option>
+                                        {getTimeZones().map(zone => (
+                                            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                                        ))}
+                                    </select>
+                                    {task.timeZone && task.timeZone !== getLocalTimeZone() && (
+                                        <p className="text-xs text-theme-muted flex items-center gap-1.5">
+                                            <Globe size={12} /> {formatDue(task)} in your time zone
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <div className="flex items-center gap-2 text-sm font-semibold text-theme-text">
+                        <Repeat size={16} className="text-theme-accent" /> Repeat
+                    </div>
+                    <select
+                        value={rule?.frequency ?? 'none'}
+                        onChange={(e) => handleFrequencyChange(e.target.value)}
+                        className={inputClass}
+                    >
+                        <option value="none">Does not repeat</option>
+                        <option value="daily">Daily</option>
+                        <option value="weekly">Weekly</option>
+                        <option value="monthly">Monthly</option>
+                        <option value="yearly">Yearly</option>
+                    </select>
+
+                    {rule && (
+                        <>
+                            <div className="flex items-center gap-2 text-sm text-theme-muted">
+                                Every
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={rule.interval}
+                                    onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                    className={clsx(inputClass, "w-20")}
+                                />
+                                {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[rule.frequency]}
+                            </div>
+
+                            {rule.frequency === 'weekly' && (
+                                <div className="flex gap-1">
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                        <button
+                                            key={label}
+                                            onClick={() => toggleWeekday(day)}
+                                            className={clsx(
+                                                "flex-1 text-xs py-1.5 rounded-md font-medium border transition-colors",
+                                                rule.weekdays.includes(day)
+                                                    ? "bg-theme-accent-bg border-theme-accent text-theme-accent"
+                                                    : "border-theme-border text-theme-muted hover:bg-theme-hover"
+                                            )}
+                                        >
+                                            {label.charAt(0)}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
+                            <select
+                                value={rule.mode}
+                                onChange={(e) => updateRule({ mode: e.target.value as RecurrenceRule['mode'] })}
+                                className={inputClass}
+                            >
+                                <option value="fixed">On a fixed schedule</option>
+                                <option value="afterCompletion">After completion</option>
+                            </select>
+
+                            <div className="flex gap-2">
+                                <select
+                                    value={endType}
+                                    onChange={(e) => handleEndTypeChange(e.target.value)}
+                                    className={inputClass}
+                                >
+                                    <option value="never">Never ends</option>
+                                    <option value="date">Ends on</option>
+                                    <option value="count">Ends after</option>
+                                </select>
+                                {endType === 'date' && (
+                                    <input
+                                        type="date"
+                                        value={rule.endDate || ''}
+                                        onChange={(e) => updateRule({ endDate: e.target.value || null })}
+                                        className={inputClass}
+                                    />
+                                )}
+                                {endType === 'count' && (
+                                    <input
+                                        type="number"
+                                        min={rule.occurrence}
+                                        value={rule.count ?? ''}
+                                        onChange={(e) => updateRule({ count: Math.max(rule.occurrence, parseInt(e.target.value, 10) || 1) })}
+                                        className={inputClass}
+                                        title="Total occurrences"
+                                    />
+                                )}
+                            </div>
+
+                            <p className="text-xs text-theme-muted">{describeRecurrence(rule)}</p>
+                        </>
+                    )}
                 </div>
 
+                <ReminderEditor task={task} inputClass={inputClass} />
+
                 <div className="flex flex-col gap-2">
                     <div className="flex items-center gap-2 text-sm font-semibold text-theme-text">
                         <FileText size={16} className="text-emerald-500" /> Notes
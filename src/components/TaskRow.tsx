@@ -1,23 +1,40 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { type Task } from '../db/db';
-import { actions } from '../db/actions';
-import { Check, ChevronRight, GripVertical, Trash2, Calendar, Tag as TagIcon, FileText, Target } from 'lucide-react';
+import { actions, type ImportedTask } from '../db/actions';
+import { parseOutline } from '../db/outline';
+import { Check, ChevronRight, GripVertical, Trash2, Calendar, Tag as TagIcon, FileText, Target, Repeat, Globe } from 'lucide-react';
+import { describeRecurrence } from '../db/recurrence';
 import { clsx } from 'clsx';
-import { format } from 'date-fns';
+import { formatDue } from '../db/dates';
+import { parseQuickAdd, type QuickAddTokenKind } from '../db/quickAdd';
+import { getPriority, PRIORITIES, PRIORITY_NAMES, priorityLabel, toStoredPriority } from '../db/priority';
+import { keymap } from '../db/keymap';
+import { type Progress } from '../db/completion';
+import { shouldCompleteSubtasks } from './completion';
+import { PriorityFlag } from './PriorityFlag';
+import { ProgressBadge } from './ProgressBadge';
 
 type TaskRowProps = {
     task: Task;
     depth: number;
     isOpen: boolean;
     hasChildren: boolean;
+    // Completed and total subtasks at any depth, for tasks that have some
+    progress?: Progress;
     onToggle: () => void;
     onTaskFocus: (e: React.FocusEvent<HTMLInputElement>) => void;
     onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
     onUpdateText: (id: string, text: string) => void;
     autoFocusId: string | null;
+    autoFocusCaret?: number | null;
     onAutoFocusComplete: () => void;
+    // Freshly added tasks read dates, tags, focus and repeats from what is typed
+    quickAdd?: boolean;
+    onQuickAddComplete?: () => void;
+    // False while the view is sorted by something other than the manual order
+    canDrag?: boolean;
     isSelected: boolean;
-    onSelect: () => void;
+    onSelect: (mode: SelectMode) => void;
     children?: React.ReactNode;
 
     // Drag & Drop
@@ -32,16 +49,32 @@ type TaskRowProps = {
     onDoubleClick?: () => void;
 };
 
+// Plain clicks select one task, Ctrl/Cmd-clicks add or remove one, Shift-clicks select a range
+export type SelectMode = 'replace' | 'toggle' | 'extend';
+
+const QUICK_ADD_HELP = 'Add a date (today, next fri, in 3 days, 2026-11-01), a time (at 5pm), #tags, a priority (!p1 to !p4), !focus or a repeat (every month, every mon and thu).\nPut \\ before a word to keep it in the title.';
+
+const TOKEN_CLASSES: Record<QuickAddTokenKind, string> = {
+    date: 'bg-blue-500/20',
+    time: 'bg-blue-500/20',
+    tag: 'bg-sky-500/20',
+    priority: 'bg-rose-500/20',
+    focus: 'bg-teal-500/25',
+    recurrence: 'bg-purple-500/20'
+};
+
 export const TaskRow: React.FC<TaskRowProps> = ({
-    task, depth, isOpen, hasChildren, onToggle,
+    task, depth, isOpen, hasChildren, progress, onToggle,
     onKeyDown, onTaskFocus, onUpdateText,
-    autoFocusId, onAutoFocusComplete, isSelected, onSelect,
+    autoFocusId, autoFocusCaret = null, onAutoFocusComplete, quickAdd = false, onQuickAddComplete, canDrag = true, isSelected, onSelect,
     children, draggedTaskId, setDraggedTaskId, dropTargetId, setDropTargetId, dropPosition, setDropPosition, onDrop,
     domId, onDoubleClick
 }) => {
     const [localText, setLocalText] = useState(task.text);
     const [isFocused, setIsFocused] = useState(false);
+    const [pastedOutline, setPastedOutline] = useState<{ text: string; tasks: ImportedTask[] } | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const overlayRef = useRef<HTMLDivElement>(null);
     const rowRef = useRef<HTMLDivElement>(null);
 
     // Sync local text when not focused to prevent cursor jumping on async updates
@@ -54,21 +87,73 @@ export const TaskRow: React.FC<TaskRowProps> = ({
     // Auto-focus logic when task is newly created
     useEffect(() => {
         if (autoFocusId === task.id && inputRef.current) {
-            inputRef.current.focus();
+            const input = inputRef.current;
+            input.focus();
+            // After the text that came with the same update has rendered
+            if (autoFocusCaret !== null) requestAnimationFrame(() => input.setSelectionRange(autoFocusCaret, autoFocusCaret));
             onAutoFocusComplete();
         }
-    }, [autoFocusId, task.id, onAutoFocusComplete]);
+    }, [autoFocusId, autoFocusCaret, task.id, onAutoFocusComplete]);
 
     const handleToggleCompleted = () => {
-        actions.toggleTaskCompletion(task.id, !task.completed);
+        if (task.completed) actions.toggleTaskCompletion(task.id, false);
+        else actions.toggleTaskCompletion(task.id, true, shouldCompleteSubtasks(progress ? progress.total - progress.done : 0));
     };
 
     const handleDelete = () => {
         actions.deleteTask(task.id);
     };
 
-    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Multi-line pastes can become nested tasks instead of one long title
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+        const text = e.clipboardData.getData('text/plain');
+        if (!text.includes('\n')) return;
+        const tasks = parseOutline(text);
+        if (tasks.length < 2) return;
+        e.preventDefault();
+        setPastedOutline({ text, tasks });
+    };
+
+    const handleCreatePasted = () => {
+        if (!pastedOutline) return;
+        const count = pastedOutline.tasks.length;
+        actions.importTasks(pastedOutline.tasks, {
+            parentId: task.parentId,
+            insertAfterId: task.id,
+            description: `Pasted ${count} tasks`
+        });
+        setPastedOutline(null);
+    };
+
+    const handlePasteAsText = () => {
+        if (!pastedOutline) return;
+        const text = localText + pastedOutline.text.split(/\r?\n/).map(l => l.trim()).filter(Boolean).join(' ');
+        setLocalText(text);
+        onUpdateText(task.id, text);
+        setPastedOutline(null);
+    };
 
+    const quickAddTokens = quickAdd ? parseQuickAdd(localText).tokens : [];
+
+    // Moves what quick add recognised out of the title and onto the task
+    const finishQuickAdd = () => {
+        if (!quickAdd) return;
+        const result = parseQuickAdd(localText);
+        if (result.tokens.length > 0) {
+            setLocalText(result.text);
+            actions.applyQuickAdd(task.id, result);
+        }
+        onQuickAddComplete?.();
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        const priority = PRIORITIES.find(p => keymap.matches(e, `priority${p}`));
+        if (priority) {
+            e.preventDefault();
+            if (priority !== getPriority(task)) actions.updateTask(task.id, { priority: toStoredPriority(priority) });
+            return;
+        }
+        if (keymap.matches(e, 'newTask') || keymap.matches(e, 'newSubtask')) finishQuickAdd();
         onKeyDown(e);
     };
 
@@ -111,10 +196,19 @@ export const TaskRow: React.FC<TaskRowProps> = ({
     const isDropTarget = dropTargetId === task.id;
 
     return (
-        <div id={domId} onDoubleClick={onDoubleClick} className="w-full flex flex-col relative" onClick={(e) => {
-            e.stopPropagation();
-            onSelect();
-        }}>
+        <div
+            id={domId}
+            onDoubleClick={onDoubleClick}
+            className="w-full flex flex-col relative"
+            onMouseDown={(e) => {
+                // Keep the focus and text selection where they are while extending the selection
+                if (e.shiftKey || e.ctrlKey || e.metaKey) e.preventDefault();
+            }}
+            onClick={(e) => {
+                e.stopPropagation();
+                onSelect(e.shiftKey ? 'extend' : e.ctrlKey || e.metaKey ? 'toggle' : 'replace');
+            }}
+        >
             {/* Drop Indicator Before */}
             {isDropTarget && dropPosition === 'before' && (
                 <div className="absolute top-0 left-0 right-0 h-0.5 bg-purple-500 z-10 rounded-full shadow-[0_0_8px_rgba(168,85,247,0.5)] transform -translate-y-1/2" style={{ marginLeft: `${depth * 24 + 12}px` }} />
@@ -122,7 +216,7 @@ export const TaskRow: React.FC<TaskRowProps> = ({
 
             <div
                 ref={rowRef}
-                draggable
+                draggable={canDrag}
                 onDragStart={handleDragStart}
                 onDragEnd={handleDragEnd}
                 onDragOver={handleDragOver}
@@ -141,7 +235,10 @@ export const TaskRow: React.FC<TaskRowProps> = ({
                 )}
                 style={{ paddingLeft: `${depth * 24 + 12}px` }}
             >
-                <div className="flex-none flex items-center justify-center w-6 h-6 mr-1 opacity-0 group-hover:opacity-100 cursor-grab active:cursor-grabbing text-theme-muted hover:text-theme-text transition-opacity">
+                <div
+                    className="flex-none flex items-center justify-center w-6 h-6 mr-1 opacity-0 group-hover:opacity-100 cursor-grab active:cursor-grabbing text-theme-muted hover:text-theme-text transition-opacity"
+                    style={{ visibility: canDrag ? 'visible' : 'hidden' }}
+                >
                     <GripVertical size={16} />
                 </div>
 
@@ -176,27 +273,55 @@ export const TaskRow: React.FC<TaskRowProps> = ({
                 </button>
 
                 <div className="flex-1 flex flex-col justify-center min-w-0">
-                    <input
-                        ref={inputRef}
-                        type="text"
-                        value={localText}
-                        onChange={(e) => {
-                            setLocalText(e.target.value);
-                            onUpdateText(task.id, e.target.value);
-                        }}
-                        onKeyDown={handleInputKeyDown}
-                        onFocus={(e) => {
-                            setIsFocused(true);
-                            onTaskFocus(e);
-                            onSelect();
-                        }}
-                        onBlur={() => setIsFocused(false)}
-                        placeholder="Empty task..."
-                        className={clsx(
-                            "task-row-input w-full bg-transparent border-none outline-none text-[15px] font-medium transition-colors placeholder:text-theme-muted",
-                            task.completed ? "line-through text-theme-muted" : "text-theme-text"
+                    <div className="relative">
+                        <input
+                            ref={inputRef}
+                            type="text"
+                            value={localText}
+                            onChange={(e) => {
+                                setLocalText(e.target.value);
+                                onUpdateText(task.id, e.target.value);
+                            }}
+                            onKeyDown={handleInputKeyDown}
+                            onPaste={handlePaste}
+                            onScroll={(e) => {
+                                if (overlayRef.current) overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+                            }}
+                            onFocus={(e) => {
+                                setIsFocused(true);
+                                onTaskFocus(e);
+                            }}
+                            onBlur={() => {
+                                setIsFocused(false);
+                                finishQuickAdd();
+                            }}
+                            placeholder={quickAdd ? 'New task, e.g. "Pay rent tomorrow #home every month"' : 'Empty task...'}
+                            title={quickAdd ? QUICK_ADD_HELP : undefined}
+                            className={clsx(
+                                "task-row-input w-full bg-transparent border-none outline-none text-[15px] font-medium transition-colors placeholder:text-theme-muted",
+                                task.completed ? "line-through text-theme-muted" : "text-theme-text"
+                            )}
+                        />
+
+                        {/* Mirrors the input text invisibly so recognised tokens can be marked in place */}
+                        {quickAddTokens.length > 0 && (
+                            <div
+                                ref={overlayRef}
+                                aria-hidden
+                                className="absolute inset-0 text-[15px] font-medium whitespace-pre overflow-hidden pointer-events-none text-transparent"
+                            >
+                                {quickAddTokens.map((token, i) => (
+                                    <React.Fragment key={token.start}>
+                                        {localText.slice(i === 0 ? 0 : quickAddTokens[i - 1].end, token.start)}
+                                        <span className={clsx("rounded-sm", token.escaped ? "underline decoration-dotted decoration-theme-muted underline-offset-4" : TOKEN_CLASSES[token.kind])}>
+                                            {localText.slice(token.start, token.end)}
+                                        </span>
+                                    </React.Fragment>
+                                ))}
+                                {localText.slice(quickAddTokens[quickAddTokens.length - 1].end)}
+                            </div>
                         )}
-                    />
+                    </div>
 
                     {(task.tags?.length > 0 || task.notes) && (
                         <div className="flex items-center gap-3 mt-1 text-xs text-theme-muted font-medium">
@@ -214,9 +339,30 @@ export const TaskRow: React.FC<TaskRowProps> = ({
                     )}
                 </div>
 
+                {progress && <ProgressBadge progress={progress} className="items-center w-10 mr-2" />}
+
+                {getPriority(task) < 4 && (
+                    <div
+                        className="flex-none flex items-center mr-2"
+                        title={`${priorityLabel(getPriority(task))} – ${PRIORITY_NAMES[getPriority(task)]}`}
+                    >
+                        <PriorityFlag priority={getPriority(task)} />
+                    </div>
+                )}
+
+                {task.recurrence && (
+                    <div className="flex-none flex items-center mr-2 text-theme-muted" title={describeRecurrence(task.recurrence)}>
+                        <Repeat size={14} />
+                    </div>
+                )}
+
                 {task.dueDate && (
-                    <div className="flex-none flex items-center mr-2 text-xs font-semibold text-theme-accent bg-theme-accent-bg border border-theme-accent shadow-sm px-2 py-1 rounded-lg">
-                        {format(new Date(task.dueDate + 'T00:00:00'), 'MMM d')}
+                    <div
+                        className="flex-none flex items-center gap-1 mr-2 text-xs font-semibold text-theme-accent bg-theme-accent-bg border border-theme-accent shadow-sm px-2 py-1 rounded-lg"
+                        title={task.dueTime && task.timeZone ? `${task.dueDate} ${task.dueTime} in ${task.timeZone}` : undefined}
+                    >
+                        {task.dueTime && task.timeZone && <Globe size={12} />}
+                        {formatDue(task)}
                     </div>
                 )}
 
@@ -262,6 +408,22 @@ export const TaskRow: React.FC<TaskRowProps> = ({
                 </div>
             </div>
 
+            {pastedOutline && (
+                <div
+                    className="flex items-center gap-3 mt-1 mb-1 px-3 py-2 rounded-lg border border-theme-accent bg-theme-accent-bg text-sm text-theme-text animate-in"
+                    style={{ marginLeft: `${depth * 24 + 12}px` }}
+                    onClick={e => e.stopPropagation()}
+                >
+                    <span className="flex-1">Create {pastedOutline.tasks.length} tasks from the pasted lines?</span>
+                    <button onClick={handleCreatePasted} className="px-2 py-1 rounded-md bg-theme-accent hover:bg-theme-accent-hover text-white font-medium transition-colors">
+                        Create tasks
+                    </button>
+                    <button onClick={handlePasteAsText} className="px-2 py-1 rounded-md text-theme-muted hover:text-theme-text hover:bg-theme-hover transition-colors">
+                        Paste as text
+                    </button>
+                </div>
+            )}
+
             {/* Drop Indicator After */}
             {isDropTarget && dropPosition === 'after' && (
                 <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-purple-500 z-10 rounded-full shadow-[0_0_8px_rgba(168,85,247,0.5)] transform translate-y-1/2" style={{ marginLeft: `${depth * 24 + 12}px` }} />
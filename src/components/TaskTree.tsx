@@ -1,9 +1,15 @@
-import React, { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import React, { useState, useEffect, useMemo, useRef, forwardRef, useImperativeHandle } from 'react';
 import { ChevronRight, Plus } from 'lucide-react';
-import { startOfDay, endOfDay, isBefore, isAfter, format } from 'date-fns';
-import { TaskRow } from './TaskRow';
+import { dueDateOnLocalDay, getDueBucket, getLocalDueDate, todayString } from '../db/dates';
+import { TaskRow, type SelectMode } from './TaskRow';
+import { BulkActionBar } from './BulkActionBar';
 import { type Task } from '../db/db';
 import { actions } from '../db/actions';
+import { compareRanks } from '../db/rank';
+import { createSearchFilter } from '../db/search';
+import { getSortComparator, type SortMode } from '../db/sorting';
+import { keymap, isTypingIn } from '../db/keymap';
+import { useSubtreeProgress, useTasks } from '../db/hooks';
 
 type Props = {
     tasks: Task[];
@@ -11,6 +17,7 @@ type Props = {
     isFocusMode?: boolean;
     searchQuery?: string;
     onClearSearch?: () => void;
+    sortMode?: SortMode;
     selectedTaskId: string | null;
     setSelectedTaskId: (id: string | null) => void;
 };
@@ -55,10 +62,10 @@ const buildStrictTreeFromMatch = (allTasks: Task[], matchFn: (t: Task) => boolea
     });
 
     // 3. Sort strictly: Root nodes sort by sectionOrder, children sort by original tree order
-    roots.sort((a, b) => (a.task.sectionOrder || 0) - (b.task.sectionOrder || 0));
+    roots.sort((a, b) => compareRanks(a.task.sectionOrder, b.task.sectionOrder));
 
     const sortChildren = (nodes: TreeNode[]) => {
-        nodes.sort((a, b) => a.task.order - b.task.order);
+        nodes.sort((a, b) => compareRanks(a.task.order, b.task.order));
         nodes.forEach(n => sortChildren(n.children));
     };
     roots.forEach(r => sortChildren(r.children));
@@ -66,8 +73,18 @@ const buildStrictTreeFromMatch = (allTasks: Task[], matchFn: (t: Task) => boolea
     return roots;
 };
 
+// Re-sorts every level of a built tree; stable, so equal tasks keep their manual order
+const sortTree = (nodes: TreeNode[], compare: (a: Task, b: Task) => number) => {
+    nodes.sort((a, b) => compare(a.task, b.task));
+    nodes.forEach(n => sortTree(n.children, compare));
+};
+
 export interface TaskTreeHandle {
     addRootTask: () => Promise<void>;
+    // Ids of the selected tasks in the order shown
+    getSelection: () => string[];
+    // Opens the Inbox tree down to a task, then selects and scrolls to it
+    revealTask: (id: string) => void;
 }
 
 export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
@@ -76,51 +93,50 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
     isFocusMode,
     searchQuery = '',
     onClearSearch,
+    sortMode = 'manual',
     selectedTaskId,
     setSelectedTaskId
 }, ref) => {
+    const progress = useSubtreeProgress();
+    // Searches look up parents and subtasks outside the view
+    const allTasks = useTasks('all');
     const [openIds, setOpenIds] = useState<Set<string>>(new Set(['group-past', 'group-today', 'group-upcoming', 'group-nodate']));
     const [autoFocusId, setAutoFocusId] = useState<string | null>(null);
+    // Where the caret goes in the auto-focused row, when it matters (after a split or merge)
+    const [autoFocusCaret, setAutoFocusCaret] = useState<number | null>(null);
+    const [quickAddId, setQuickAddId] = useState<string | null>(null);
     const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
     const [dropTargetId, setDropTargetId] = useState<string | null>(null);
     const [dropPosition, setDropPosition] = useState<'before' | 'after' | 'inside' | null>(null);
+    // Tasks added with Shift or Ctrl/Cmd-click. They only count while they include the selected task,
+    // so selecting a single task from elsewhere drops back to a single selection.
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    // Row key where Shift ranges start. Keys, since the Inbox can show a task in two groups.
+    const [anchorKey, setAnchorKey] = useState<string | null>(null);
+    const extendingRef = useRef(false);
+
+    const selection = useMemo(
+        () => selectedTaskId && selectedIds.has(selectedTaskId) ? selectedIds : new Set(selectedTaskId ? [selectedTaskId] : []),
+        [selectedIds, selectedTaskId]
+    );
+    const isMultiSelect = selection.size > 1;
 
-    useImperativeHandle(ref, () => ({
-        addRootTask: async () => {
-            const newTask = await actions.addTask('', 'root', [], null, -1);
-            const newId = newTask.id;
-
-            // If we are in inbox but not searching, open nodate and focus
-            if (isInbox && !searchQuery) {
-                setOpenIds(prev => {
-                    const next = new Set(prev);
-                    next.add('group-nodate');
-                    return next;
-                });
-                setAutoFocusId(`group-nodate_${newId}`);
-            } else {
-                setAutoFocusId(newId);
-            }
-            setSelectedTaskId(newId);
-        }
-    }));
-
-    // Global KeyDown for Task Deletion
+    // Global KeyDown for Task Deletion and clearing a multi-selection
     useEffect(() => {
         const handleGlobalKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Delete' && selectedTaskId) {
-                // Confirm user isn't typing in an input before deleting globally
-                const activeElement = document.activeElement;
-                const isTyping = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA';
-                if (!isTyping) {
-                    actions.deleteTask(selectedTaskId);
-                    setSelectedTaskId(null);
-                }
+            if (keymap.matches(e, 'clearSelection') && isMultiSelect) {
+                setSelectedIds(new Set());
+            } else if (keymap.matches(e, 'deleteTask') && selectedTaskId && !isTypingIn(document.activeElement, isMultiSelect)) {
+                e.preventDefault();
+                if (isMultiSelect) actions.deleteTasks([...selection]);
+                else actions.deleteTask(selectedTaskId);
+                setSelectedIds(new Set());
+                setSelectedTaskId(null);
             }
         };
         window.addEventListener('keydown', handleGlobalKeyDown);
         return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-    }, [selectedTaskId, setSelectedTaskId]);
+    }, [selectedTaskId, setSelectedTaskId, selection, isMultiSelect]);
 
     // Build the tree
     let rootNodes: TreeNode[] = [];
@@ -132,13 +148,8 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
             children: []
         }));
     } else if (searchQuery) {
-        const query = searchQuery.toLowerCase();
         // Use strict matching so searching only returns individual matched items at root level
-        rootNodes = buildStrictTreeFromMatch(tasks, task =>
-            task.text.toLowerCase().includes(query) ||
-            (!!task.notes && task.notes.toLowerCase().includes(query)) ||
-            (!!task.tags && task.tags.some(tag => tag.toLowerCase().includes(query)))
-        );
+        rootNodes = buildStrictTreeFromMatch(tasks, createSearchFilter(searchQuery, allTasks || tasks));
     } else {
         // If not searching, just build standard full tree. 
         // We can mimic buildTreeFromMatch with a simple loop since matchFn is always true.
@@ -157,7 +168,7 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
         });
 
         const sortChildren = (nodes: TreeNode[]) => {
-            nodes.sort((a, b) => a.task.order - b.task.order);
+            nodes.sort((a, b) => compareRanks(a.task.order, b.task.order));
             nodes.forEach(n => sortChildren(n.children));
         };
         sortChildren(rootNodes);
@@ -173,33 +184,75 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
     };
 
     if (isInbox && !searchQuery) {
-        const parseLocal = (dStr: string) => {
-            const parts = dStr.split('-');
-            return new Date(parseInt(parts[0], 10), parseInt(parts[1], 10) - 1, parseInt(parts[2], 10));
-        };
+        const now = new Date();
+        groups.past.nodes = buildStrictTreeFromMatch(tasks, t => getDueBucket(t, now) === 'past');
+        groups.today.nodes = buildStrictTreeFromMatch(tasks, t => getDueBucket(t, now) === 'today');
+        groups.upcoming.nodes = buildStrictTreeFromMatch(tasks, t => getDueBucket(t, now) === 'upcoming');
 
-        const todayEnd = endOfDay(new Date());
-        const todayStart = startOfDay(new Date());
+        groups.nodate.nodes = rootNodes;
+        groups.nodate.text = 'No Date / All';
+    }
 
-        groups.past.nodes = buildStrictTreeFromMatch(tasks, t => {
-            if (!t.dueDate) return false;
-            return isBefore(parseLocal(t.dueDate), todayStart);
-        });
+    const compare = getSortComparator(sortMode);
+    if (compare) {
+        sortTree(rootNodes, compare);
+        if (isInbox && !searchQuery) [groups.past, groups.today, groups.upcoming].forEach(g => sortTree(g.nodes, compare));
+    }
 
-        groups.today.nodes = buildStrictTreeFromMatch(tasks, t => {
-            if (!t.dueDate) return false;
-            const due = parseLocal(t.dueDate);
-            return !isBefore(due, todayStart) && !isAfter(due, todayEnd);
-        });
+    // Rows in the order they are shown, for range selection
+    const visibleRows: { key: string; id: string }[] = [];
+    const collectRows = (nodes: TreeNode[], keyPrefix: string) => nodes.forEach(node => {
+        visibleRows.push({ key: `${keyPrefix}${node.task.id}`, id: node.task.id });
+        if (openIds.has(node.task.id)) collectRows(node.children, keyPrefix);
+    });
+    if (isInbox && !searchQuery) Object.values(groups).forEach(g => openIds.has(g.id) && collectRows(g.nodes, `${g.id}-`));
+    else collectRows(rootNodes, '');
 
-        groups.upcoming.nodes = buildStrictTreeFromMatch(tasks, t => {
-            if (!t.dueDate) return false;
-            return isAfter(parseLocal(t.dueDate), todayEnd);
-        });
+    // The selection in the order shown, followed by selected tasks that are collapsed out of view
+    const orderedSelection = Array.from(new Set([...visibleRows.map(r => r.id).filter(id => selection.has(id)), ...selection]));
 
-        groups.nodate.nodes = rootNodes;
-        groups.nodate.text = 'No Date / All';
-    }
+    const rowsBetween = (fromKey: string, toKey: string) => {
+        const from = visibleRows.findIndex(r => r.key === fromKey);
+        const to = visibleRows.findIndex(r => r.key === toKey);
+        if (from === -1 || to === -1) return new Set(visibleRows.filter(r => r.key === toKey).map(r => r.id));
+        return new Set(visibleRows.slice(Math.min(from, to), Math.max(from, to) + 1).map(r => r.id));
+    };
+
+    const handleSelect = (id: string, key: string, mode: SelectMode) => {
+        if (mode !== 'replace' && document.activeElement?.classList.contains('task-row-input')) {
+            (document.activeElement as HTMLElement).blur();
+        }
+        if (mode === 'extend') {
+            setSelectedIds(rowsBetween(anchorKey ?? key, key));
+            setSelectedTaskId(id);
+        } else if (mode === 'toggle') {
+            const next = new Set(selection);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            setSelectedIds(next);
+            setSelectedTaskId(next.has(id) ? id : [...next].pop() ?? null);
+            setAnchorKey(key);
+        } else {
+            setSelectedIds(new Set());
+            setSelectedTaskId(id);
+            setAnchorKey(key);
+        }
+    };
+
+    // Focusing a title that is part of the selection keeps it, anything else starts a new one
+    const handleTaskFocus = (id: string, key: string) => {
+        if (extendingRef.current) return;
+        if (!selection.has(id)) {
+            setSelectedIds(new Set());
+            setAnchorKey(key);
+        }
+        setSelectedTaskId(id);
+    };
+
+    const clearSelection = () => {
+        setSelectedIds(new Set());
+        setSelectedTaskId(null);
+    };
 
     const toggleOpen = (id: string) => {
         setOpenIds(prev => {
@@ -245,27 +298,144 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
         }, 150);
     };
 
-    const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>, task: Task) => {
-        if (e.key === 'Enter') {
+    // A new top-level task, focused with quick add on, for the toolbar button and the one below the list
+    const addRootTask = async () => {
+        const newTask = await actions.addTask('', 'root', [], null, null);
+        const newId = newTask.id;
+
+        // If we are in inbox but not searching, open nodate so the new row is there to focus
+        if (isInbox && !searchQuery) {
+            setOpenIds(prev => {
+                const next = new Set(prev);
+                next.add('group-nodate');
+                return next;
+            });
+        }
+        setAutoFocusId(newId);
+        setSelectedTaskId(newId);
+        setQuickAddId(newId);
+    };
+
+    useImperativeHandle(ref, () => ({
+        addRootTask,
+        getSelection: () => orderedSelection,
+        revealTask: (id: string) => handleDoubleClickToAll(id)
+    }));
+
+    // Siblings shown in this view, in manual order
+    const siblingsOf = (parentId: string) => tasks.filter(t => t.parentId === parentId).sort((a, b) => compareRanks(a.order, b.order));
+
+    // Moves the focus to a row once it has re-rendered, with the caret at `caret` if given
+    const refocus = (id: string | null, caret: number | null = null) => {
+        setAutoFocusId(id);
+        setAutoFocusCaret(caret);
+    };
+
+    // Outliner commands. Rows in date sections have their parent hoisted for display, so the tree ones go by the
+    // task as stored.
+    const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>, task: Task, key: string) => {
+        const input = e.currentTarget;
+        const current = tasks.find(t => t.id === task.id) ?? task;
+        const caret = input.selectionStart ?? input.value.length;
+        const selectionEnd = input.selectionEnd ?? caret;
+
+        const isNewTask = keymap.matches(e, 'newTask');
+        const isSubtask = keymap.matches(e, 'newSubtask');
+
+        if (isNewTask && quickAddId !== task.id && caret > 0 && caret < input.value.length) {
+            // Split at the caret, carrying the rest of the title to a new task below
+            e.preventDefault();
+            const newTask = await actions.splitTask(task.id, input.value.slice(0, caret), input.value.slice(selectionEnd));
+            if (newTask) refocus(newTask.id, 0);
+        } else if (isNewTask || isSubtask) {
             e.preventDefault();
-            const isSubtask = e.ctrlKey || e.metaKey;
 
             let parentId = isSubtask ? task.id : task.parentId;
-            const insertAfterOrder = isSubtask ? undefined : task.order;
+            const insertAfterId = isSubtask ? undefined : task.id;
 
-            const newTask = await actions.addTask('', parentId, [], task.dueDate || null, insertAfterOrder);
+            const newTask = await actions.addTask('', parentId, [], task.dueDate || null, insertAfterId);
             setAutoFocusId(newTask.id);
+            setQuickAddId(newTask.id);
 
             if (isSubtask && !openIds.has(task.id)) {
                 setOpenIds(new Set([...openIds, task.id]));
             }
-        } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        } else if ((keymap.matches(e, 'indent') || keymap.matches(e, 'outdent')) && !isFocusMode) {
+            // Indent under the previous sibling, or outdent to just after the parent
+            e.preventDefault();
+            if (keymap.matches(e, 'outdent')) {
+                const parent = tasks.find(t => t.id === current.parentId);
+                if (!parent) return;
+                const index = siblingsOf(parent.parentId).findIndex(t => t.id === parent.id);
+                await actions.reorderSiblings(task.id, parent.parentId, index + 1);
+            } else {
+                const siblings = siblingsOf(current.parentId);
+                const previous = siblings[siblings.findIndex(t => t.id === task.id) - 1];
+                if (!previous) return;
+                await actions.reorderSiblings(task.id, previous.id, siblingsOf(previous.id).length);
+                setOpenIds(prev => new Set([...prev, previous.id]));
+            }
+            refocus(task.id, caret);
+        } else if (keymap.matches(e, 'moveUp') || keymap.matches(e, 'moveDown')) {
+            // Move one place among its siblings. Top-level rows of the Inbox date groups move within their day.
+            e.preventDefault();
+            if (compare) return;
+            const offset = keymap.matches(e, 'moveUp') ? -1 : 1;
+            if (isFocusMode) {
+                const index = tasks.findIndex(t => t.id === task.id);
+                if (!tasks[index + offset]) return;
+                await actions.reorderInFocus(task.id, index + offset);
+            } else if (isInbox && !searchQuery && !key.startsWith('group-nodate-') && task.parentId === 'root') {
+                const peers = tasks.filter(t => t.dueDate === current.dueDate).sort((a, b) => compareRanks(a.sectionOrder, b.sectionOrder));
+                const index = peers.findIndex(t => t.id === task.id);
+                if (!peers[index + offset]) return;
+                await actions.reorderInSection(task.id, current.dueDate, index + offset);
+            } else {
+                const siblings = siblingsOf(current.parentId);
+                const index = siblings.findIndex(t => t.id === task.id);
+                if (!siblings[index + offset]) return;
+                await actions.reorderSiblings(task.id, current.parentId, index + offset);
+            }
+            refocus(task.id, caret);
+        } else if (keymap.matches(e, 'mergeWithPrevious') && caret === 0 && selectionEnd === 0 && !isFocusMode) {
+            // Merge into the row above in the same group, leaving the caret where the two titles meet
+            const index = visibleRows.findIndex(r => r.key === key);
+            const previous = visibleRows[index - 1];
+            const prefix = key.slice(0, key.length - task.id.length);
+            const previousTask = previous && previous.key === `${prefix}${previous.id}` ? tasks.find(t => t.id === previous.id) : undefined;
+            if (index <= 0 || !previousTask) return;
+            e.preventDefault();
+            await actions.mergeTasks(previousTask.id, task.id);
+            refocus(previousTask.id, previousTask.text.length);
+        } else if (keymap.matches(e, 'collapse') || keymap.matches(e, 'expand')) {
+            e.preventDefault();
+            const expand = keymap.matches(e, 'expand');
+            setOpenIds(prev => {
+                const next = new Set(prev);
+                if (expand) next.add(task.id);
+                else next.delete(task.id);
+                return next;
+            });
+        } else if (keymap.matches(e, 'extendSelectionUp') || keymap.matches(e, 'extendSelectionDown')) {
+            // Extend the selection to the next row, moving the focus along without starting a new selection
+            e.preventDefault();
+            const index = visibleRows.findIndex(r => r.key === key);
+            const target = index === -1 ? undefined : visibleRows[index + (keymap.matches(e, 'extendSelectionDown') ? 1 : -1)];
+            if (!target) return;
+            const anchor = anchorKey ?? key;
+            setSelectedIds(rowsBetween(anchor, target.key));
+            setAnchorKey(anchor);
+            setSelectedTaskId(target.id);
+            extendingRef.current = true;
+            document.getElementById(`task-row-${target.key}`)?.querySelector<HTMLInputElement>('.task-row-input')?.focus();
+            extendingRef.current = false;
+        } else if (keymap.matches(e, 'previousTask') || keymap.matches(e, 'nextTask')) {
             e.preventDefault();
             // Complex to implement a flat tree navigation here, we will do basic focus handling inside TaskRow or using DOM traversal
             const rowElements = Array.from(document.querySelectorAll('.task-row-input')) as HTMLInputElement[];
             const idx = rowElements.indexOf(e.currentTarget);
             if (idx !== -1) {
-                const targetIdx = e.key === 'ArrowDown' ? idx + 1 : idx - 1;
+                const targetIdx = keymap.matches(e, 'nextTask') ? idx + 1 : idx - 1;
                 if (targetIdx >= 0 && targetIdx < rowElements.length) {
                     rowElements[targetIdx].focus();
                 }
@@ -277,12 +447,73 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
         actions.updateTask(id, { text });
     };
 
+    // We can infer this by checking if the dropTargetId exists inside the nodate tree
+    const isInNoDateTree = (taskId: string): boolean => {
+        const checkNode = (nodes: TreeNode[]): boolean => {
+            for (const n of nodes) {
+                if (n.task.id === taskId) return true;
+                if (checkNode(n.children)) return true;
+            }
+            return false;
+        };
+        return checkNode(groups.nodate.nodes);
+    };
+
+    const resetDrag = () => {
+        setDraggedTaskId(null);
+        setDropTargetId(null);
+        setDropPosition(null);
+    };
+
+    // Dragging a task that is part of a multi-selection takes the whole selection along, in the order shown,
+    // as one move. Dropping on a date group or a dated task reschedules the moved tasks to that day.
+    const handleSelectionDrop = async (targetId: string) => {
+        if (selection.has(targetId)) return;
+
+        if (isFocusMode) {
+            let dropIndex = tasks.findIndex(t => t.id === targetId);
+            if (dropIndex === -1) dropIndex = tasks.length;
+            else if (dropPosition === 'after') dropIndex++;
+            await actions.moveTasks(orderedSelection, { field: 'focusOrder' }, dropIndex);
+        } else if (targetId === 'group-nodate') {
+            await actions.moveTasks(orderedSelection, { field: 'order', parentId: 'root' }, Infinity, () => ({ dueDate: null }));
+        } else if (targetId === 'group-today') {
+            const today = todayString();
+            await actions.moveTasks(orderedSelection, { field: 'sectionOrder', dueDate: today }, Infinity, t => ({ dueDate: dueDateOnLocalDay(t, today) }));
+        } else if (!targetId.startsWith('group-') && dropPosition) {
+            const targetTask = tasks.find(t => t.id === targetId);
+            if (!targetTask) return;
+
+            if (!isInNoDateTree(targetId)) {
+                const targetDay = getLocalDueDate(targetTask);
+                const targetBucket = getDueBucket(targetTask);
+                const targetSectionNodes = targetBucket ? groups[targetBucket].nodes : [];
+                const targetIndex = targetSectionNodes.findIndex(n => n.task.id === targetId);
+                const dropIndex = targetIndex === -1 ? Infinity : dropPosition === 'before' ? targetIndex : targetIndex + 1;
+                await actions.moveTasks(orderedSelection, { field: 'sectionOrder', dueDate: targetDay }, dropIndex, t => ({ dueDate: dueDateOnLocalDay(t, targetDay) }));
+            } else if (dropPosition === 'inside') {
+                await actions.moveTasks(orderedSelection, { field: 'order', parentId: targetId });
+                setOpenIds(prev => new Set([...prev, targetId]));
+            } else {
+                const siblings = tasks.filter(t => t.parentId === targetTask.parentId).sort((a, b) => compareRanks(a.order, b.order));
+                const targetIndex = siblings.findIndex(t => t.id === targetId);
+                await actions.moveTasks(orderedSelection, { field: 'order', parentId: targetTask.parentId }, dropPosition === 'before' ? targetIndex : targetIndex + 1);
+            }
+        }
+    };
+
     const handleDrop = async (e: React.DragEvent, targetId: string) => {
         e.preventDefault();
         e.stopPropagation();
 
         if (!draggedTaskId || draggedTaskId === targetId) return;
 
+        if (isMultiSelect && selection.has(draggedTaskId)) {
+            await handleSelectionDrop(targetId);
+            resetDrag();
+            return;
+        }
+
         let draggedTask = tasks.find(t => t.id === draggedTaskId);
         if (!draggedTask) return;
 
@@ -311,7 +542,7 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
 
             // Update due date based on group target
             let newDueDate = draggedTask.dueDate;
-            if (targetId === 'group-today') newDueDate = format(new Date(), 'yyyy-MM-dd');
+            if (targetId === 'group-today') newDueDate = dueDateOnLocalDay(draggedTask, todayString());
             else if (targetId === 'group-nodate') newDueDate = null;
 
             if (newDueDate !== draggedTask.dueDate) {
@@ -323,36 +554,17 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
             if (!targetTask) return;
 
             // Determine if we are interacting with the flat Date sections vs the hierarchical No-Date tree
-            // We can infer this by checking if the dropTargetId exists inside the nodate tree
-            const isInNoDateTree = (taskId: string): boolean => {
-                const checkNode = (nodes: TreeNode[]): boolean => {
-                    for (const n of nodes) {
-                        if (n.task.id === taskId) return true;
-                        if (checkNode(n.children)) return true;
-                    }
-                    return false;
-                };
-                return checkNode(groups.nodate.nodes);
-            };
-
             isSectionDrop = !isInNoDateTree(targetId);
 
             if (isSectionDrop) {
-                const targetDate = targetTask.dueDate;
-                const parseLocal = (dStr: string) => {
-                    const parts = dStr.split('-');
-                    return new Date(parseInt(parts[0], 10), parseInt(parts[1], 10) - 1, parseInt(parts[2], 10));
-                };
+                // The dragged task takes the target's local day, keeping its own time
+                const targetDate = dueDateOnLocalDay(draggedTask, getLocalDueDate(targetTask));
+                const targetBucket = getDueBucket(targetTask);
 
                 // Determine flat drop index inside the current date's matching group.
                 // Because we strictly filtered the tree, we look only at the top-level nodes of the matched section
                 // to find our sectionOrder target index.
-                let targetSectionNodes: TreeNode[] = [];
-                if (!targetDate) {
-                    targetSectionNodes = [];
-                } else if (isBefore(parseLocal(targetDate), startOfDay(new Date()))) targetSectionNodes = groups.past.nodes;
-                else if (isAfter(parseLocal(targetDate), endOfDay(new Date()))) targetSectionNodes = groups.upcoming.nodes;
-                else targetSectionNodes = groups.today.nodes;
+                const targetSectionNodes = targetBucket ? groups[targetBucket].nodes : [];
 
                 const targetIndex = targetSectionNodes.findIndex(n => n.task.id === targetId);
 
@@ -377,7 +589,7 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
                     dropIndex = children.length;
                 } else {
                     newParentId = targetTask.parentId;
-                    const siblings = tasks.filter(t => t.parentId === newParentId).sort((a, b) => a.order - b.order);
+                    const siblings = tasks.filter(t => t.parentId === newParentId).sort((a, b) => compareRanks(a.order, b.order));
                     const targetIndex = siblings.findIndex(t => t.id === targetId);
                     dropIndex = dropPosition === 'before' ? targetIndex : targetIndex + 1;
                 }
@@ -392,9 +604,7 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
             await actions.reorderSiblings(draggedTaskId, newParentId, dropIndex);
         }
 
-        setDraggedTaskId(null);
-        setDropTargetId(null);
-        setDropPosition(null);
+        resetDrag();
     };
 
     const renderNodeList = (nodes: TreeNode[], depth: number, keyPrefix: string = '') => {
@@ -407,14 +617,19 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
                 depth={depth}
                 isOpen={openIds.has(node.task.id)}
                 hasChildren={node.children.length > 0}
+                progress={progress.get(node.task.id)}
                 onToggle={() => toggleOpen(node.task.id)}
-                onTaskFocus={() => setSelectedTaskId(node.task.id)}
-                onKeyDown={(e) => handleKeyDown(e, node.task)}
+                onTaskFocus={() => handleTaskFocus(node.task.id, `${keyPrefix}${node.task.id}`)}
+                onKeyDown={(e) => handleKeyDown(e, node.task, `${keyPrefix}${node.task.id}`)}
                 onUpdateText={handleUpdateText}
                 autoFocusId={autoFocusId}
-                onAutoFocusComplete={() => setAutoFocusId(null)}
-                isSelected={selectedTaskId === node.task.id}
-                onSelect={() => setSelectedTaskId(node.task.id)}
+                autoFocusCaret={autoFocusCaret}
+                onAutoFocusComplete={() => refocus(null)}
+                quickAdd={quickAddId === node.task.id}
+                onQuickAddComplete={() => setQuickAddId(null)}
+                canDrag={!compare}
+                isSelected={selection.has(node.task.id)}
+                onSelect={(mode) => handleSelect(node.task.id, `${keyPrefix}${node.task.id}`, mode)}
 
                 // Drag and drop props
                 draggedTaskId={draggedTaskId}
@@ -435,7 +650,10 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
     };
 
     return (
-        <div className="w-full h-full flex flex-col gap-1 p-4 overflow-y-auto" onClick={() => setSelectedTaskId(null)}>
+        <div className="w-full h-full flex flex-col gap-1 p-4 overflow-y-auto" onClick={clearSelection}>
+            {isMultiSelect && (
+                <BulkActionBar selectedIds={orderedSelection} tasks={tasks} onClear={() => setSelectedIds(new Set())} />
+            )}
             {tasks.length === 0 ? (
                 <div className="text-theme-muted italic text-sm text-center py-10">
                     No tasks. Type below to add one.
@@ -470,7 +688,7 @@ export const TaskTree = forwardRef<TaskTreeHandle, Props>(({
             )}
 
             <button
-                onClick={(e) => { e.stopPropagation(); actions.addTask('', 'root'); }}
+                onClick={(e) => { e.stopPropagation(); addRootTask(); }}
                 className="mt-4 flex items-center justify-center gap-2 text-theme-muted hover:text-theme-text hover:bg-theme-hover border border-theme-glass-border rounded-xl p-3 transition-colors shadow-sm font-medium"
             >
                 <Plus size={20} /> Add Task
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { formatDistanceToNow, addDays } from 'date-fns';
+import { actions } from '../db/actions';
+import { useTrash } from '../db/hooks';
+import { getTrashRetentionDays, setTrashRetentionDays } from '../db/trash';
+
+export const TrashView: React.FC = () => {
+    const entries = useTrash() || [];
+    const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+
+    const handleRetentionChange = (value: string) => {
+        const days = parseInt(value, 10);
+        if (!(days > 0)) return;
+        setRetentionDays(days);
+        setTrashRetentionDays(days);
+        actions.purgeExpiredTrash(days);
+    };
+
+    const handleEmpty = () => {
+        if (window.confirm('Permanently delete everything in the Trash? This cannot be undone.')) {
+            actions.emptyTrash();
+        }
+    };
+
+    return (
+        <div className="w-full h-full flex flex-col overflow-y-auto">
+            <div className="sticky top-0 z-10 flex items-center justify-between gap-4 px-6 py-3 border-b border-theme-border bg-theme-glass-solid backdrop-blur-md text-sm">
+                <label className="flex items-center gap-2 text-theme-muted">
+                    Delete items after
+                    <input
+                        type="number"
+                        min="1"
+                        value={retentionDays}
+                        onChange={e => handleRetentionChange(e.target.value)}
+                        className="w-16 bg-theme-input-bg border border-theme-border rounded-lg px-2 py-1 text-theme-text focus:outline-none focus:ring-2 focus:ring-theme-accent"
+                    />
+                    days
+                </label>
+                <button
+                    onClick={handleEmpty}
+                    disabled={entries.length === 0}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-rose-500 hover:bg-rose-500/10 transition-colors font-medium disabled:opacity-40 disabled:pointer-events-none"
+                >
+                    <Trash2 size={16} />
+                    Empty Trash
+                </button>
+            </div>
+
+            {entries.length === 0 ? (
+                <div className="text-theme-muted italic text-center py-20">
+                    Trash is empty.
+                </div>
+            ) : (
+                <div className="p-3 flex flex-col gap-1">
+                    {entries.map(({ task, subtaskCount }) => (
+                        <div
+                            key={task.id}
+                            className="group flex items-center gap-3 px-3 py-2.5 rounded-lg border border-transparent hover:bg-theme-hover hover:border-theme-border transition-colors"
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-theme-text truncate">
+                                    {task.text || <span className="italic text-theme-muted">Untitled</span>}
+                                </div>
+                                <div className="text-xs text-theme-muted mt-0.5">
+                                    {subtaskCount > 0 && `${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'} · `}
+                                    Deleted {formatDistanceToNow(task.deletedAt!, { addSuffix: true })}
+                                    {' · '}
+                                    Removed for good {formatDistanceToNow(addDays(task.deletedAt!, retentionDays), { addSuffix: true })}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => actions.restoreFromTrash(task.id)}
+                                className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm text-theme-muted hover:text-theme-accent hover:bg-theme-accent-bg transition-colors"
+                                title="Restore"
+                            >
+                                <RotateCcw size={16} />
+                                Restore
+                            </button>
+                            <button
+                                onClick={() => actions.purgeFromTrash(task.id)}
+                                className="p-1.5 rounded-lg text-theme-muted hover:text-rose-500 hover:bg-rose-500/10 transition-colors"
+                                title="Delete permanently"
+                            >
+                                <X size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,265 @@
+import { addDays, format, nextMonday } from 'date-fns';
+import {
+    Archive, Calendar, CalendarArrowDown, CalendarDays, CalendarX, Check, ClipboardCopy, Clock, CornerDownRight, Download,
+    Flag, History as HistoryIcon, Keyboard, LayoutList, ListTodo, Moon, Plus, Redo2, RotateCcw, Search, Sparkles, SquareKanban, Sun, Tag as TagIcon, Target,
+    Trash2, Undo2, type LucideIcon
+} from 'lucide-react';
+import { type Task } from '../db/db';
+import { actions } from '../db/actions';
+import { history } from '../db/history';
+import { keymap } from '../db/keymap';
+import { countOpenSubtasks } from '../db/completion';
+import { shouldCompleteSubtasks } from './completion';
+import { type SectionFilter } from '../db/hooks';
+import { type SmartView } from '../db/views';
+import { buildOutline, withoutSubtrees, type OutlineNode } from '../db/outline';
+import { parseQuickAdd } from '../db/quickAdd';
+import { DATE_FORMAT } from '../db/dates';
+import { PRIORITIES, PRIORITY_NAMES, priorityLabel } from '../db/priority';
+import { BOARD_GROUPINGS, type Layout } from '../db/board';
+
+export type PaletteCommand = {
+    id: string;
+    label: string;
+    section: string;
+    icon?: LucideIcon;
+    // Shown on the right, e.g. a shortcut or where a task lives
+    hint?: string;
+    run?: () => void;
+    // Commands that need a choice, like a date or a tag, open a second list built from what is typed
+    options?: (query: string) => PaletteCommand[];
+    // Only listed once something is typed, like the tasks to jump to
+    searchOnly?: boolean;
+};
+
+export type CommandContext = {
+    // The tasks the task commands act on: the TaskTree selection
+    selection: Task[];
+    // Every live task, to jump to and to move under
+    allTasks: Task[];
+    tags: string[];
+    views: SmartView[];
+    theme: 'light' | 'twilight' | 'midnight';
+    layout: Layout;
+    // False where there is no task list to add to, like the Trash
+    canAddTask: boolean;
+    addTask: () => void;
+    revealTask: (id: string) => void;
+    setFilter: (filter: SectionFilter) => void;
+    applyView: (view: SmartView) => void;
+    setTheme: (theme: 'light' | 'twilight' | 'midnight') => void;
+    setLayout: (layout: Layout) => void;
+    showHistory: () => void;
+    showShortcuts: () => void;
+    copyMarkdown: () => void;
+    downloadCalendar: () => void;
+    exportBackup: () => void;
+};
+
+const VIEWS: { id: SectionFilter & string; label: string; icon: LucideIcon }[] = [
+    { id: 'focus', label: 'Focus Priority', icon: Target },
+    { id: 'all', label: 'Inbox', icon: ListTodo },
+    { id: 'today', label: 'Today', icon: Calendar },
+    { id: 'upcoming', label: 'Upcoming', icon: Clock },
+    { id: 'past', label: 'Past / Completed', icon: Archive },
+    { id: 'no-date', label: 'No Date', icon: CalendarDays },
+    { id: 'trash', label: 'Trash', icon: Trash2 }
+];
+
+const LAYOUTS: { id: Layout; label: string; icon: LucideIcon }[] = [
+    { id: 'list', label: 'Show as a list', icon: LayoutList },
+    ...BOARD_GROUPINGS.map(g => ({ id: g.id, label: `Show as a board by ${g.label.toLowerCase()}`, icon: SquareKanban }))
+];
+
+const THEMES: { id: CommandContext['theme']; label: string; icon: LucideIcon }[] = [
+    { id: 'light', label: 'Light', icon: Sun },
+    { id: 'twilight', label: 'Twilight', icon: Sparkles },
+    { id: 'midnight', label: 'Midnight', icon: Moon }
+];
+
+// "'Buy milk'" for one task, "3 tasks" for several
+const describeSelection = (selection: Task[]) => {
+    if (selection.length !== 1) return `${selection.length} tasks`;
+    const text = selection[0].text.trim() || 'untitled task';
+    return `'${text.length > 30 ? text.slice(0, 29) + '…' : text}'`;
+};
+
+// Every task with the titles of its ancestors, depth-first
+const withPaths = (nodes: OutlineNode[], path: string[] = []): { task: Task; path: string }[] =>
+    nodes.flatMap(n => [
+        { task: n.task, path: path.join(' › ') },
+        ...withPaths(n.children, [...path, n.task.text || 'Untitled'])
+    ]);
+
+const rescheduleOptions = (ids: string[], query: string): PaletteCommand[] => {
+    const today = new Date();
+    const day = (date: Date) => format(date, DATE_FORMAT);
+    const presets: { label: string; date: string | null }[] = [
+        { label: 'Today', date: day(today) },
+        { label: 'Tomorrow', date: day(addDays(today, 1)) },
+        { label: 'Next week', date: day(nextMonday(today)) },
+        { label: 'No date', date: null }
+    ];
+    // Anything quick add reads as a date, e.g. "next fri" or "in 3 days"
+    const typed = query.trim() ? parseQuickAdd(query.trim(), today).dueDate : null;
+    if (typed) presets.unshift({ label: query.trim(), date: typed });
+
+    return presets.map((preset, i) => ({
+        id: `reschedule-${i}`,
+        label: preset.label,
+        section: 'Date',
+        icon: preset.date ? Calendar : CalendarX,
+        hint: preset.date ? format(new Date(`${preset.date}T00:00`), 'EEE, MMM d') : undefined,
+        run: () => actions.rescheduleTasks(ids, preset.date)
+    }));
+};
+
+const tagOptions = (ids: string[], tags: string[], query: string): PaletteCommand[] => {
+    const name = query.trim().replace(/^#/, '').replace(/\s+/g, '-');
+    const options = tags.map(tag => ({
+        id: `tag-${tag}`,
+        label: `#${tag}`,
+        section: 'Tag',
+        icon: TagIcon,
+        run: () => actions.addTagToTasks(ids, tag)
+    }));
+    if (name && !tags.includes(name)) {
+        options.unshift({ id: 'tag-new', label: `#${name}`, section: 'New tag', icon: Plus, run: () => actions.addTagToTasks(ids, name) });
+    }
+    return options;
+};
+
+const selectionCommands = (context: CommandContext): PaletteCommand[] => {
+    const { selection, allTasks, tags } = context;
+    if (selection.length === 0) return [];
+    const ids = selection.map(t => t.id);
+    const target = describeSelection(selection);
+    const allCompleted = selection.every(t => t.completed);
+    const allFocused = selection.every(t => t.isFocused);
+
+    return [
+        {
+            id: 'complete',
+            label: `${allCompleted ? 'Reopen' : 'Complete'} ${target}`,
+            section: 'Task',
+            icon: allCompleted ? RotateCcw : Check,
+            run: () => allCompleted
+                ? actions.setTasksCompleted(ids, false)
+                : actions.setTasksCompleted(ids, true, shouldCompleteSubtasks(countOpenSubtasks(ids, allTasks)))
+        },
+        {
+            id: 'focus',
+            label: allFocused ? `Remove ${target} from Focus` : `Add ${target} to Focus`,
+            section: 'Task',
+            icon: Target,
+            run: () => actions.setTasksFocused(ids, !allFocused)
+        },
+        {
+            id: 'reschedule',
+            label: `Reschedule ${target}…`,
+            section: 'Task',
+            icon: Calendar,
+            options: query => rescheduleOptions(ids, query)
+        },
+        {
+            id: 'tag',
+            label: `Tag ${target}…`,
+            section: 'Task',
+            icon: TagIcon,
+            options: query => tagOptions(ids, tags, query)
+        },
+        {
+            id: 'priority',
+            label: `Set priority of ${target}…`,
+            section: 'Task',
+            icon: Flag,
+            options: () => PRIORITIES.map(p => ({
+                id: `priority-${p}`,
+                label: `${priorityLabel(p)} ${PRIORITY_NAMES[p]}`,
+                section: 'Priority',
+                icon: Flag,
+                run: () => actions.setTasksPriority(ids, p)
+            }))
+        },
+        {
+            id: 'move',
+            label: `Move ${target} to…`,
+            section: 'Task',
+            icon: CornerDownRight,
+            // A selection can't move under one of its own tasks or their subtasks
+            options: () => [
+                { id: 'move-root', label: 'Top level', section: 'Move', run: () => actions.moveTasks(ids, { field: 'order', parentId: 'root' }) },
+                ...withPaths(withoutSubtrees(buildOutline(allTasks), new Set(ids))).map(({ task, path }) => ({
+                    id: `move-${task.id}`,
+                    label: task.text || 'Untitled',
+                    section: 'Move',
+                    hint: path,
+                    run: () => actions.moveTasks(ids, { field: 'order', parentId: task.id })
+                }))
+            ]
+        },
+        {
+            id: 'delete',
+            label: `Delete ${target}`,
+            section: 'Task',
+            icon: Trash2,
+            hint: keymap.describe('deleteTask'),
+            run: () => actions.deleteTasks(ids)
+        }
+    ];
+};
+
+// Everything the command palette offers, given the current state of the app
+export const buildCommands = (context: CommandContext): PaletteCommand[] => {
+    const entries = history.getEntries();
+    const undoEntry = [...entries].reverse().find(e => !e.undone);
+    const redoEntry = entries.find(e => e.undone);
+
+    return [
+        ...(context.canAddTask ? [{ id: 'new-task', label: 'New task', section: 'Task', icon: Plus, run: context.addTask }] : []),
+        ...selectionCommands(context),
+        ...VIEWS.map(view => ({
+            id: `view-${view.id}`,
+            label: `Go to ${view.label}`,
+            section: 'View',
+            icon: view.icon,
+            run: () => context.setFilter(view.id)
+        })),
+        ...context.views.map(view => ({
+            id: `smart-view-${view.id}`,
+            label: `Go to ${view.name}`,
+            section: 'Saved view',
+            icon: Search,
+            run: () => context.applyView(view)
+        })),
+        ...LAYOUTS.filter(layout => layout.id !== context.layout).map(layout => ({
+            id: `layout-${layout.id}`,
+            label: layout.label,
+            section: 'Layout',
+            icon: layout.icon,
+            run: () => context.setLayout(layout.id)
+        })),
+        ...THEMES.filter(theme => theme.id !== context.theme).map(theme => ({
+            id: `theme-${theme.id}`,
+            label: `Switch to ${theme.label} theme`,
+            section: 'Theme',
+            icon: theme.icon,
+            run: () => context.setTheme(theme.id)
+        })),
+        ...(undoEntry ? [{ id: 'undo', label: `Undo: ${undoEntry.description}`, section: 'History', icon: Undo2, hint: keymap.describe('undo'), run: () => history.undo() }] : []),
+        ...(redoEntry ? [{ id: 'redo', label: `Redo: ${redoEntry.description}`, section: 'History', icon: Redo2, hint: keymap.describe('redo'), run: () => history.redo() }] : []),
+        { id: 'history', label: 'Show history', section: 'History', icon: HistoryIcon, run: context.showHistory },
+        { id: 'shortcuts', label: 'Keyboard shortcuts', section: 'Settings', icon: Keyboard, run: context.showShortcuts },
+        { id: 'copy-markdown', label: 'Copy this view as Markdown', section: 'Export', icon: ClipboardCopy, run: context.copyMarkdown },
+        { id: 'download-ics', label: 'Download this view as a calendar (.ics)', section: 'Export', icon: CalendarArrowDown, run: context.downloadCalendar },
+        { id: 'export-backup', label: 'Export a backup of all tasks', section: 'Export', icon: Download, run: context.exportBackup },
+        ...withPaths(buildOutline(context.allTasks)).map(({ task, path }) => ({
+            id: `task-${task.id}`,
+            label: task.text || 'Untitled',
+            section: 'Jump to task',
+            hint: path,
+            searchOnly: true,
+            run: () => context.revealTask(task.id)
+        }))
+    ];
+};
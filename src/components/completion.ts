@@ -0,0 +1,11 @@
+import { getCompletionRules } from '../db/completion';
+
+// Whether completing tasks with `openSubtasks` open subtasks completes those too, asking when the rules say so
+export const shouldCompleteSubtasks = (openSubtasks: number) => {
+    const rule = getCompletionRules().completeSubtasks;
+    if (rule !== 'ask' || openSubtasks === 0) return rule === 'always';
+    return window.confirm(
+        `Also complete ${openSubtasks === 1 ? 'the open subtask' : `the ${openSubtasks} open subtasks`}?\n` +
+        'OK completes them too, Cancel leaves them open.'
+    );
+};
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { actions } from './actions';
+import { type Task } from './db';
+import { history } from './history';
+import { createLocalBackend } from './localBackend';
+import { createDefaultRecurrence } from './recurrence';
+import { getRepository, setBackend } from './repository';
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+    id, parentId: 'root', text: id, completed: false, dueDate: null, tags: [], order: '', createdAt: 0, userId: 'local', ...fields
+});
+
+const useTasks = (tasks: Task[]) => {
+    setBackend(createLocalBackend(false, tasks));
+    history.clear();
+};
+
+// Ids of the live children of `parentId` in rank order
+const childIds = async (parentId: string) =>
+    (await getRepository().findTasks({ parentId }))
+        .filter(t => !t.deletedAt)
+        .sort((a, b) => a.order < b.order ? -1 : a.order > b.order ? 1 : 0)
+        .map(t => t.id);
+
+describe('reorderSiblings', () => {
+    beforeEach(() => useTasks([task('a', { order: 'F' }), task('b', { order: 'V' }), task('c', { order: 'k' })]));
+
+    it('moves a task among its siblings', async () => {
+        await actions.reorderSiblings('c', 'root', 0);
+        expect(await childIds('root')).toEqual(['c', 'a', 'b']);
+
+        await actions.reorderSiblings('c', 'root', 1);
+        expect(await childIds('root')).toEqual(['a', 'c', 'b']);
+    });
+
+    it('only rewrites the rank of the task that moved', async () => {
+        await actions.reorderSiblings('a', 'root', 2);
+        const tasks = await getRepository().getTasks(['b', 'c']);
+        expect(tasks.map(t => t.order)).toEqual(['V', 'k']);
+    });
+
+    it('moves a task under a new parent', async () => {
+        await actions.reorderSiblings('c', 'a', 0);
+        expect(await childIds('root')).toEqual(['a', 'b']);
+        expect(await childIds('a')).toEqual(['c']);
+    });
+
+    it('re-spreads the list when neighbours share a rank', async () => {
+        useTasks([task('a', { order: 'V' }), task('b', { order: 'V' }), task('c', { order: 'V' })]);
+        await actions.reorderSiblings('c', 'root', 1);
+        const tasks = await getRepository().getTasks(['a', 'c', 'b']);
+        const ranks = tasks.map(t => t.order);
+        expect(new Set(ranks).size).toBe(3);
+        expect([...ranks].sort()).toEqual(ranks);
+    });
+
+    it('is undone and redone as one step', async () => {
+        await actions.reorderSiblings('c', 'root', 0);
+        await history.undo();
+        expect(await childIds('root')).toEqual(['a', 'b', 'c']);
+        await history.redo();
+        expect(await childIds('root')).toEqual(['c', 'a', 'b']);
+    });
+});
+
+describe('mergeTasks', () => {
+    it('puts the subtasks of a merged subtask where it was', async () => {
+        useTasks([
+            task('parent'),
+            task('first', { parentId: 'parent', order: 'F' }),
+            task('merged', { parentId: 'parent', order: 'V' }),
+            task('last', { parentId: 'parent', order: 'k' }),
+            task('x', { parentId: 'merged', order: 'F' }),
+            task('y', { parentId: 'merged', order: 'V' })
+        ]);
+        await actions.mergeTasks('parent', 'merged');
+        expect(await childIds('parent')).toEqual(['first', 'x', 'y', 'last']);
+        expect((await getRepository().getTask('parent'))!.text).toBe('parentmerged');
+    });
+});
+
+describe('addTask', () => {
+    beforeEach(() => useTasks([task('a', { order: 'F' }), task('b', { order: 'V' })]));
+
+    it('inserts right after the given sibling', async () => {
+        const added = await actions.addTask('new', 'root', [], null, 'a');
+        expect(await childIds('root')).toEqual(['a', added.id, 'b']);
+    });
+
+    it('removes the task again on undo', async () => {
+        const added = await actions.addTask('new');
+        await history.undo();
+        expect(await getRepository().getTask(added.id)).toBeNull();
+        expect(history.canRedo()).toBe(true);
+    });
+});
+
+describe('completing a recurring task', () => {
+    const recurrence = createDefaultRecurrence('monthly');
+
+    it('schedules the next occurrence without the instance fields', async () => {
+        useTasks([task('bill', {
+            dueDate: '2026-01-31', recurrence, icalUid: 'uid-1', boardOrder: 'V', isFocused: true, focusOrder: 'V'
+        })]);
+        const next = await actions.toggleTaskCompletion('bill', true);
+
+        expect(next).toBeDefined();
+        const stored = (await getRepository().getTask(next!.id))!;
+        expect(stored.dueDate).toBe('2026-02-28');
+        expect(stored.recurrence?.occurrence).toBe(2);
+        expect(stored.icalUid).toBeUndefined();
+        expect(stored.boardOrder).toBeUndefined();
+        expect(stored.isFocused).toBe(false);
+        expect((await getRepository().getTask('bill'))!.nextOccurrenceId).toBe(next!.id);
+    });
+
+    it('keeps the day of the month through shorter months', async () => {
+        useTasks([task('bill', { dueDate: '2026-01-31', recurrence })]);
+        const february = await actions.toggleTaskCompletion('bill', true);
+        const march = await actions.toggleTaskCompletion(february!.id, true);
+        expect(march!.dueDate).toBe('2026-03-31');
+    });
+});
+
+describe('importTasks', () => {
+    it('adds imported tasks after the existing ones, keeping their nesting', async () => {
+        useTasks([task('existing', { order: 'V' })]);
+        await actions.importTasks([
+            { id: 'import-0', parentId: 'root', text: 'Project' },
+            { id: 'import-1', parentId: 'import-0', text: 'First' },
+            { id: 'import-2', parentId: 'import-0', text: 'Second' }
+        ]);
+        const roots = await childIds('root');
+        expect(roots).toHaveLength(2);
+        expect(roots[0]).toBe('existing');
+
+        const children = (await getRepository().findTasks({ parentId: roots[1] }))
+            .sort((a, b) => a.order < b.order ? -1 : 1)
+            .map(t => t.text);
+        expect(children).toEqual(['First', 'Second']);
+    });
+});
@@ -1,322 +1,957 @@
-import {
-    collection,
-    doc,
-    getDoc,
-    getDocs,
-    setDoc,
-    updateDoc,
-    deleteDoc,
-    query,
-    where,
-    writeBatch
-} from "firebase/firestore";
-import { db, auth, type Task } from './db';
+import { pickFields, type Priority, type Task } from './db';
 import { history, type Operation } from './history';
+import { getRepository, getSession, type TaskCriteria, type TaskWrite } from './repository';
+import { getNextDueDate, getNextRule, shiftDueDate, shiftReminders } from './recurrence';
+import { format, parseISO } from 'date-fns';
+import { compareRanks, rankBetween, ranksAfter, ranksBetween, spreadRanks, MAX_RANK_LENGTH } from './rank';
+import { isTrashed } from './trash';
+import { formatDuration } from './dates';
+import { type QuickAddFields } from './quickAdd';
+import { getPriority, priorityLabel, toStoredPriority } from './priority';
+import { getCompletionRules } from './completion';
 
 const generateId = () => crypto.randomUUID();
 
+// A task read from a backup or another app. Ids only need to be unique within the import, and a parentId
+// may name another imported task or an existing one. Ranks are optional and only keep the file's ordering.
+export type ImportedTask = Pick<Task, 'id' | 'parentId' | 'text'> &
+    Partial<Pick<Task, 'notes' | 'completed' | 'dueDate' | 'dueTime' | 'duration' | 'timeZone' | 'reminders' | 'tags' | 'priority' | 'order' | 'sectionOrder' | 'isFocused' | 'focusOrder' | 'boardOrder' | 'recurrence' | 'nextOccurrenceId' | 'createdAt' | 'icalUid'>>;
+
 const getUserId = () => {
-    const uid = auth.currentUser?.uid;
+    const uid = getSession().getState().user?.uid;
     if (!uid) throw new Error("User not authenticated");
     return uid;
 };
 
-const getTasksCollection = () => {
+// Quoted, shortened task title for history descriptions
+const taskLabel = (task: Pick<Task, 'text'>) => {
+    const text = (task.text || '').trim();
+    if (!text) return 'an untitled task';
+    return `'${text.length > 40 ? text.slice(0, 39) + '…' : text}'`;
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeUpdate = (task: Task, updates: Partial<Task>) => {
+    const label = taskLabel(task);
+    const keys = Object.keys(updates);
+    if (keys.length !== 1) return `Edited ${label}`;
+    switch (keys[0]) {
+        case 'completed': return `${updates.completed ? 'Completed' : 'Reopened'} ${label}`;
+        case 'text': return `Renamed task to ${taskLabel({ text: updates.text || '' })}`;
+        case 'notes': return `Edited notes of ${label}`;
+        case 'tags': return `Changed tags of ${label}`;
+        case 'dueDate': return updates.dueDate
+            ? `Scheduled ${label} for ${format(parseISO(updates.dueDate), 'MMM d')}`
+            : `Cleared due date of ${label}`;
+        case 'dueTime': return updates.dueTime ? `Set ${label} due at ${updates.dueTime}` : `Cleared due time of ${label}`;
+        case 'duration': return updates.duration ? `Set ${label} to take ${formatDuration(updates.duration)}` : `Cleared duration of ${label}`;
+        case 'reminders': return `Changed reminders of ${label}`;
+        case 'snoozedUntil': return updates.snoozedUntil ? `Snoozed reminder for ${label}` : `Edited ${label}`;
+        case 'timeZone': return updates.timeZone ? `Pinned ${label} to ${updates.timeZone}` : `Unpinned ${label} from its time zone`;
+        case 'priority': return updates.priority ? `Set ${label} to ${priorityLabel(updates.priority)}` : `Cleared priority of ${label}`;
+        case 'isFocused': return `${updates.isFocused ? 'Added' : 'Removed'} ${label} ${updates.isFocused ? 'to' : 'from'} Focus`;
+        case 'recurrence': return updates.recurrence ? `Changed repeat of ${label}` : `Stopped repeating ${label}`;
+        default: return `Edited ${label}`;
+    }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Like findTasks, but leaves out everything in the Trash
+const findLiveTasks = async (criteria: TaskCriteria = {}) =>
+    (await getRepository().findTasks(criteria)).filter(t => !isTrashed(t));
+
+// All descendants of a task that are not in the Trash, parents before children
+const getDescendants = async (rootId: string) => {
+    const repo = getRepository();
+    const descendants: Task[] = [];
+    let frontier = [rootId];
+    while (frontier.length > 0) {
+        const children = (await repo.findChildren(frontier)).filter(t => !isTrashed(t));
+        descendants.push(...children);
+        frontier = children.map(c => c.id);
+    }
+    return descendants;
+};
+
+type RankField = 'order' | 'sectionOrder' | 'focusOrder' | 'boardOrder';
+
+const byRank = (field: RankField) => (a: Task, b: Task) => compareRanks(a[field], b[field]);
+
+// New ranks that put `taskIds`, in that order, at `index` of `others` (sorted by `field`, not containing them).
+// Normally only those tasks get keys; when their neighbours leave no room the whole list is re-spread.
+const planBlockPlacement = (others: Task[], index: number, taskIds: string[], field: RankField) => {
+    const before = index > 0 ? others[index - 1][field] ?? '' : null;
+    const after = index < others.length ? others[index][field] ?? '' : null;
+    if (after === null || (after !== '' && (before === null || before < after))) {
+        const ranks = ranksBetween(before, after, taskIds.length);
+        if (ranks.every(rank => rank.length <= MAX_RANK_LENGTH)) return new Map(taskIds.map((id, i) => [id, ranks[i]]));
+    }
+
+    const ids = others.map(t => t.id);
+    ids.splice(index, 0, ...taskIds);
+    const ranks = spreadRanks(ids.length);
+    return new Map(ids.map((id, i) => [id, ranks[i]]));
+};
+
+const planPlacement = (others: Task[], index: number, taskId: string, field: RankField) =>
+    planBlockPlacement(others, index, [taskId], field);
+
+// Adds history and write entries for peers whose rank changed during a rebalance
+const pushRankUpdates = (ranks: Map<string, string>, peers: Task[], field: RankField, batchOps: Operation[], writes: TaskWrite[]) => {
+    for (const peer of peers) {
+        const rank = ranks.get(peer.id);
+        if (rank === undefined || rank === peer[field]) continue;
+        batchOps.push({
+            type: 'UPDATE', taskId: peer.id,
+            prevUpdateSnapshot: { [field]: peer[field] },
+            newUpdateSnapshot: { [field]: rank }
+        });
+        writes.push({ type: 'update', id: peer.id, changes: { [field]: rank } });
+    }
+};
+
+// Tasks that share a dated section with a task due on `dueDate` (all undated tasks for null)
+const getSectionPeers = async (dueDate: string | null) => {
+    if (dueDate) return findLiveTasks({ dueDate });
+    // Null or empty, so fetch all and filter in memory to catch both
+    const allTasks = await findLiveTasks();
+    return allTasks.filter(t => !t.dueDate);
+};
+
+// Highest existing rank in `field`, or null for an empty list
+const lastRank = (tasks: Task[], field: RankField) =>
+    tasks.reduce<string | null>((max, t) => {
+        const rank = t[field];
+        return rank && (max === null || rank > max) ? rank : max;
+    }, null);
+
+// Keeps the imported order when every item carries a rank, otherwise the order they were listed in
+const sortImported = (items: ImportedTask[], field: RankField) =>
+    items.every(t => typeof t[field] === 'string') ? [...items].sort((a, b) => compareRanks(a[field], b[field])) : items;
+
+// Moves a task to `dropIndex` among `peers` by `field` as one undoable batch.
+// `extra` holds other fields that change together with the move, like parentId.
+const commitMove = async (task: Task, peers: Task[], dropIndex: number, field: RankField, description: string, extra: Partial<Task> = {}) => {
+    const extraKeys = (Object.keys(extra) as Array<keyof Task>).filter(key => extra[key] !== task[key]);
+    const sorted = [...peers].sort(byRank(field));
+    if (extraKeys.length === 0 && sorted.findIndex(t => t.id === task.id) === dropIndex) return;
+
+    const others = sorted.filter(t => t.id !== task.id);
+    const ranks = planPlacement(others, dropIndex, task.id, field);
+
+    const prevSnapshot: Partial<Task> = { [field]: task[field], ...pickFields(task, extraKeys) };
+    const newSnapshot: Partial<Task> = { [field]: ranks.get(task.id), ...pickFields(extra, extraKeys) };
+
+    const batchOps: Operation[] = [{ type: 'UPDATE', taskId: task.id, prevUpdateSnapshot: prevSnapshot, newUpdateSnapshot: newSnapshot }];
+    const writes: TaskWrite[] = [{ type: 'update', id: task.id, changes: newSnapshot }];
+    pushRankUpdates(ranks, others, field, batchOps, writes);
+    await commitBatch(batchOps, writes, description);
+};
+
+// Adds the steps for a new task to a batch: among its siblings as addTask places it, and at the end of its section
+const planNewTask = async (
+    text: string,
+    parentId: string,
+    tags: string[],
+    dueDate: string | null,
+    insertAfterId: string | null | undefined,
+    batchOps: Operation[],
+    writes: TaskWrite[]
+) => {
     const uid = getUserId();
-    return collection(db, "users", uid, "tasks");
+    const id = generateId();
+
+    // Find siblings
+    const siblings = (await findLiveTasks({ parentId })).sort(byRank('order'));
+    const sectionPeers = (await getSectionPeers(dueDate)).sort(byRank('sectionOrder'));
+
+    let index = siblings.length;
+    if (insertAfterId === null) index = 0;
+    else if (insertAfterId !== undefined) index = siblings.findIndex(s => s.id === insertAfterId) + 1;
+
+    const orderRanks = planPlacement(siblings, index, id, 'order');
+    const sectionRanks = planPlacement(sectionPeers, sectionPeers.length, id, 'sectionOrder');
+    pushRankUpdates(orderRanks, siblings, 'order', batchOps, writes);
+    pushRankUpdates(sectionRanks, sectionPeers, 'sectionOrder', batchOps, writes);
+
+    const newTask: Task = {
+        id,
+        parentId,
+        text,
+        notes: '',
+        completed: false,
+        dueDate,
+        tags,
+        order: orderRanks.get(id)!,
+        sectionOrder: sectionRanks.get(id)!,
+        isFocused: false,
+        createdAt: Date.now(),
+        userId: uid
+    };
+
+    batchOps.push({ type: 'ADD', taskId: newTask.id, taskSnapshot: newTask });
+    writes.push({ type: 'set', task: newTask });
+    return newTask;
 };
 
+// Only the first completion of a recurring task spawns its next occurrence
+const getNextOccurrenceDate = (task: Task, completed: boolean) =>
+    completed && task.recurrence && !task.nextOccurrenceId ? getNextDueDate(task.recurrence, task.dueDate, new Date()) : null;
+
+// A task to copy into the next occurrence, without what belongs to this instance only: the calendar item it came
+// from, where it sits on the board and in Focus, and a snoozed reminder
+const withoutInstanceFields = (task: Task): Task => {
+    const copy: Task = { ...task, isFocused: false, snoozedUntil: null };
+    delete copy.icalUid;
+    delete copy.boardOrder;
+    delete copy.focusOrder;
+    return copy;
+};
+
+// Completes a recurring task and copies it with its subtree as the next occurrence, adding the steps to a batch.
+// `planned` holds occurrences created earlier in the same batch, so their ranks don't collide with this one.
+const planNextOccurrence = async (task: Task, nextDueDate: string, batchOps: Operation[], writes: TaskWrite[], planned: Task[]) => {
+    const id = task.id;
+    const siblings = [...await findLiveTasks({ parentId: task.parentId }), ...planned.filter(t => t.parentId === task.parentId)].sort(byRank('order'));
+    const sectionPeers = [...await getSectionPeers(nextDueDate), ...planned.filter(t => t.dueDate === nextDueDate)].sort(byRank('sectionOrder'));
+    const descendants = await getDescendants(id);
+    const now = Date.now();
+
+    // Copy the subtree with fresh ids, reopened and shifted along with the parent's due date
+    const idMap = new Map<string, string>([[id, generateId()]]);
+    descendants.forEach(d => idMap.set(d.id, generateId()));
+    const orderRanks = planPlacement(siblings, siblings.length, idMap.get(id)!, 'order');
+    const sectionRanks = planPlacement(sectionPeers, sectionPeers.length, idMap.get(id)!, 'sectionOrder');
+
+    const nextTask: Task = {
+        ...withoutInstanceFields(task),
+        id: idMap.get(id)!,
+        completed: false,
+        dueDate: nextDueDate,
+        order: orderRanks.get(idMap.get(id)!)!,
+        sectionOrder: sectionRanks.get(idMap.get(id)!)!,
+        createdAt: now,
+        recurrence: getNextRule(task.recurrence!, task.dueDate),
+        nextOccurrenceId: null,
+        ...(task.reminders && { reminders: shiftReminders(task.reminders, task.dueDate, nextDueDate, new Date(now)) })
+    };
+    const copies: Task[] = [nextTask, ...descendants.map(d => ({
+        ...withoutInstanceFields(d),
+        id: idMap.get(d.id)!,
+        parentId: idMap.get(d.parentId)!,
+        completed: false,
+        dueDate: shiftDueDate(d.dueDate, task.dueDate, nextDueDate),
+        createdAt: now,
+        nextOccurrenceId: null,
+        ...(d.reminders && { reminders: shiftReminders(d.reminders, task.dueDate, nextDueDate, new Date(now)) })
+    }))];
+
+    batchOps.push({
+        type: 'UPDATE',
+        taskId: id,
+        prevUpdateSnapshot: { completed: task.completed, nextOccurrenceId: task.nextOccurrenceId ?? null },
+        newUpdateSnapshot: { completed: true, nextOccurrenceId: nextTask.id }
+    });
+    writes.push({ type: 'update', id, changes: { completed: true, nextOccurrenceId: nextTask.id } });
+    pushRankUpdates(orderRanks, siblings, 'order', batchOps, writes);
+    pushRankUpdates(sectionRanks, sectionPeers, 'sectionOrder', batchOps, writes);
+    for (const copy of copies) {
+        batchOps.push({ type: 'ADD', taskId: copy.id, taskSnapshot: copy });
+        writes.push({ type: 'set', task: copy });
+    }
+    return nextTask;
+};
+
+// The live tasks among `ids`, in the order given
+const getLiveTasks = async (ids: string[]) => {
+    const found = new Map((await getRepository().getTasks(ids)).map(t => [t.id, t]));
+    return ids.map(id => found.get(id)).filter((t): t is Task => !!t && !isTrashed(t));
+};
+
+// `taskId` followed by the ids of its ancestors up to the top level
+const getAncestry = async (taskId: string) => {
+    const ids: string[] = [];
+    let current = taskId;
+    while (current !== 'root' && !ids.includes(current)) {
+        ids.push(current);
+        const task = await getRepository().getTask(current);
+        if (!task) break;
+        current = task.parentId;
+    }
+    return ids;
+};
+
+// Leaves out tasks with an ancestor in the list, since those come along with it
+const getTopmost = async (tasks: Task[]) => {
+    const listed = new Set(tasks.map(t => t.id));
+    const topmost: Task[] = [];
+    for (const task of tasks) {
+        if (!(await getAncestry(task.parentId)).some(id => listed.has(id))) topmost.push(task);
+    }
+    return topmost;
+};
+
+// Adds an UPDATE for the fields of `changes` that differ from the task, returning whether there were any
+const pushUpdate = (task: Task, changes: Partial<Task>, batchOps: Operation[], writes: TaskWrite[]) => {
+    const keys = (Object.keys(changes) as Array<keyof Task>).filter(key => changes[key] !== task[key]);
+    if (keys.length === 0) return false;
+    const prevSnapshot: Partial<Task> = pickFields(task, keys);
+    const newSnapshot: Partial<Task> = pickFields(changes, keys);
+    batchOps.push({ type: 'UPDATE', taskId: task.id, prevUpdateSnapshot: prevSnapshot, newUpdateSnapshot: newSnapshot });
+    writes.push({ type: 'update', id: task.id, changes: newSnapshot });
+    return true;
+};
+
+// "Completed 'Buy milk'" for one task, "Completed 3 tasks" for several
+const describeBulk = (verb: string, tasks: Task[], suffix = '') =>
+    `${verb} ${tasks.length === 1 ? taskLabel(tasks[0]) : plural(tasks.length, 'task')}${suffix}`;
+
+// Records the batch in history once the writes went through, so a failed commit leaves no entry to undo
+const commitBatch = async (batchOps: Operation[], writes: TaskWrite[], description: string) => {
+    if (batchOps.length === 0) return;
+    await getRepository().commit(writes);
+    history.push({ type: 'BATCH', batchOperations: batchOps }, description);
+};
+
+// Completes or reopens tasks, adding the steps to a batch along with what the completion rules bring with them:
+// open subtasks completed with their task (when `completeSubtasks`), parents completed with their last open
+// subtask, and completed parents reopened with a subtask. Returns the history description.
+const planCompletion = async (tasks: Task[], completed: boolean, completeSubtasks: boolean, batchOps: Operation[], writes: TaskWrite[]) => {
+    const rules = getCompletionRules();
+    // Tasks this batch completes or reopens
+    const changed = new Set<string>();
+    const nextOccurrences: Task[] = [];
+    let subtasks = 0;
+    let parents = 0;
+
+    const setCompleted = async (task: Task) => {
+        changed.add(task.id);
+        const nextDueDate = getNextOccurrenceDate(task, completed);
+        if (nextDueDate) nextOccurrences.push(await planNextOccurrence(task, nextDueDate, batchOps, writes, nextOccurrences));
+        else pushUpdate(task, { completed }, batchOps, writes);
+    };
+    const isCompleted = (task: Task) => changed.has(task.id) ? completed : task.completed;
+
+    for (const task of tasks) await setCompleted(task);
+
+    if (completed && completeSubtasks) {
+        for (const task of tasks) {
+            for (const descendant of await getDescendants(task.id)) {
+                if (isCompleted(descendant)) continue;
+                changed.add(descendant.id);
+                pushUpdate(descendant, { completed: true }, batchOps, writes);
+                subtasks++;
+            }
+        }
+    }
+
+    if (completed && rules.completeParentWithLastSubtask) {
+        for (const task of tasks) {
+            let parentId = task.parentId;
+            while (parentId !== 'root') {
+                const parent = await getRepository().getTask(parentId);
+                if (!parent || isTrashed(parent) || isCompleted(parent)) break;
+                if (!(await findLiveTasks({ parentId })).every(isCompleted)) break;
+                await setCompleted(parent);
+                parents++;
+                parentId = parent.parentId;
+            }
+        }
+    }
+
+    if (!completed && rules.reopenParents) {
+        for (const task of tasks) {
+            for (const parent of await getLiveTasks(await getAncestry(task.parentId))) {
+                if (!isCompleted(parent)) continue;
+                changed.add(parent.id);
+                pushUpdate(parent, { completed: false }, batchOps, writes);
+                parents++;
+            }
+        }
+    }
+
+    const withSubtasks = subtasks > 0 ? ` with ${plural(subtasks, 'subtask')}` : '';
+    const withParents = parents > 0 ? ` and ${plural(parents, 'parent')}` : '';
+    const scheduled = nextOccurrences.length === 1
+        ? ` and scheduled the next one for ${format(parseISO(nextOccurrences[0].dueDate!), 'MMM d')}`
+        : nextOccurrences.length > 1 ? ` and scheduled ${plural(nextOccurrences.length, 'next occurrence')}` : '';
+    return {
+        nextOccurrences,
+        description: describeBulk(completed ? 'Completed' : 'Reopened', tasks, withSubtasks + withParents + scheduled)
+    };
+};
+
+// Where moveTasks puts a selection: under a parent, into a dated section, or in the Focus list
+export type MoveTarget =
+    | { field: 'order'; parentId: string }
+    | { field: 'sectionOrder'; dueDate: string | null }
+    | { field: 'focusOrder' };
+
 export const actions = {
     async addTask(
         text: string,
         parentId: string = 'root',
         tags: string[] = [],
         dueDate: string | null = null,
-        insertAfterOrder?: number
+        insertAfterId?: string | null // undefined appends, null inserts first, an id inserts right after that sibling
     ) {
-        const uid = getUserId();
-        const tasksRef = getTasksCollection();
-        let orderToUse: number;
-
-        // Find siblings
-        const q = query(tasksRef, where("parentId", "==", parentId));
-        const querySnapshot = await getDocs(q);
-        const siblings = querySnapshot.docs.map(d => d.data() as Task);
-
         const batchOps: Operation[] = [];
-        const fbatch = writeBatch(db);
-
-        if (insertAfterOrder !== undefined) {
-            orderToUse = insertAfterOrder + 1;
-            const siblingsToShift = siblings.filter(s => s.order >= orderToUse);
-            for (const sib of siblingsToShift) {
-                const newOrder = sib.order + 1;
-                batchOps.push({
-                    type: 'UPDATE',
-                    taskId: sib.id,
-                    prevUpdateSnapshot: { order: sib.order },
-                    newUpdateSnapshot: { order: newOrder }
-                });
-                const sibRef = doc(tasksRef, sib.id);
-                fbatch.update(sibRef, { order: newOrder });
-            }
-        } else {
-            const maxOrder = Math.max(0, ...siblings.map(s => s.order));
-            orderToUse = maxOrder + 1;
-        }
-
-        const newTask: Task = {
-            id: generateId(),
-            parentId,
-            text,
-            notes: '',
-            completed: false,
-            dueDate,
-            tags,
-            order: orderToUse,
-            sectionOrder: Date.now(),
-            isFocused: false,
-            focusOrder: 0,
-            createdAt: Date.now(),
-            userId: uid
-        };
-
-        batchOps.push({ type: 'ADD', taskId: newTask.id, taskSnapshot: newTask });
-        const newRef = doc(tasksRef, newTask.id);
-        fbatch.set(newRef, newTask);
+        const writes: TaskWrite[] = [];
+        const newTask = await planNewTask(text, parentId, tags, dueDate, insertAfterId, batchOps, writes);
 
-        await fbatch.commit();
-        history.push({ type: 'BATCH', batchOperations: batchOps });
+        await getRepository().commit(writes);
+        history.push({ type: 'BATCH', batchOperations: batchOps }, `Added ${text ? taskLabel(newTask) : 'a new task'}`);
         return newTask;
     },
 
     async updateTask(id: string, updates: Partial<Task>) {
-        const tasksRef = getTasksCollection();
-        const taskRef = doc(tasksRef, id);
-        const snap = await getDoc(taskRef);
-
-        if (!snap.exists()) return;
-        const existing = snap.data() as Task;
+        const repo = getRepository();
+        const existing = await repo.getTask(id);
+        if (!existing) return;
 
-        const prevSnapshot: Partial<Task> = {};
-        for (const key of Object.keys(updates) as Array<keyof Task>) {
-            // @ts-ignore
-            prevSnapshot[key] = existing[key];
-        }
+        const prevSnapshot: Partial<Task> = pickFields(existing, Object.keys(updates) as Array<keyof Task>);
 
         history.push({
             type: 'UPDATE',
             taskId: id,
             prevUpdateSnapshot: prevSnapshot,
             newUpdateSnapshot: updates
-        });
+        }, describeUpdate(existing, updates));
 
-        await updateDoc(taskRef, updates);
+        await repo.commit([{ type: 'update', id, changes: updates }]);
     },
 
-    async toggleTaskCompletion(id: string, completed: boolean) {
-        return this.updateTask(id, { completed });
+    // Follows the completion rules. Whether open subtasks are completed too defaults to the rule, with
+    // "ask" leaving them open; callers that asked pass the answer.
+    async toggleTaskCompletion(id: string, completed: boolean, completeSubtasks = getCompletionRules().completeSubtasks === 'always') {
+        const task = await getRepository().getTask(id);
+        if (!task || task.completed === completed) return;
+
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        const { nextOccurrences, description } = await planCompletion([task], completed, completeSubtasks, batchOps, writes);
+        await commitBatch(batchOps, writes, description);
+        return nextOccurrences[0];
     },
 
-    async deleteTask(id: string) {
-        const tasksRef = getTasksCollection();
-        const toDeleteIds = [id];
-        let index = 0;
-
-        // BFS to find all children recursively
-        while (index < toDeleteIds.length) {
-            const currentId = toDeleteIds[index];
-            const q = query(tasksRef, where("parentId", "==", currentId));
-            const querySnapshot = await getDocs(q);
-            for (const childDoc of querySnapshot.docs) {
-                toDeleteIds.push(childDoc.id);
-            }
-            index++;
-        }
+    // Splits a title at the caret, as Enter in the middle of one does in an outliner: the task keeps the text
+    // before it and a new sibling right after it gets the rest
+    async splitTask(id: string, before: string, after: string) {
+        const task = await getRepository().getTask(id);
+        if (!task) return;
 
         const batchOps: Operation[] = [];
-        const fbatch = writeBatch(db);
+        const writes: TaskWrite[] = [];
+        pushUpdate(task, { text: before }, batchOps, writes);
+        const newTask = await planNewTask(after, task.parentId, [], task.dueDate || null, id, batchOps, writes);
+        await commitBatch(batchOps, writes, `Split ${taskLabel({ text: before })}`);
+        return newTask;
+    },
 
-        // Firebase where 'in' max is 10, so fetch each snapshot individually for history
-        for (const delId of toDeleteIds) {
-            const docRef = doc(tasksRef, delId);
-            const snap = await getDoc(docRef);
-            if (snap.exists()) {
-                batchOps.push({
-                    type: 'DELETE',
-                    taskId: delId,
-                    taskSnapshot: snap.data() as Task
-                });
-                fbatch.delete(docRef);
-            }
+    // Joins a task onto the end of another, as Backspace at the start of a title does in an outliner.
+    // Its tags and subtasks move over to the other task and it goes to the Trash.
+    async mergeTasks(targetId: string, sourceId: string) {
+        const repo = getRepository();
+        const target = await repo.getTask(targetId);
+        const source = await repo.getTask(sourceId);
+        if (!target || !source || targetId === sourceId) return;
+        // Merging into one of its own subtasks would leave that subtask under a trashed parent
+        if ((await getAncestry(target.parentId)).includes(sourceId)) return;
+
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        const changes: Partial<Task> = { text: target.text + source.text };
+        const newTags = (source.tags || []).filter(tag => !(target.tags || []).includes(tag));
+        if (newTags.length > 0) changes.tags = [...(target.tags || []), ...newTags];
+        pushUpdate(target, changes, batchOps, writes);
+
+        const children = (await findLiveTasks({ parentId: sourceId })).sort(byRank('order'));
+        const targetChildren = (await findLiveTasks({ parentId: targetId })).filter(t => t.id !== sourceId);
+        let ranks: string[];
+        if (source.parentId === targetId) {
+            // Merging a subtask into its parent: its subtasks take its place, between its old neighbours
+            const siblings = [...targetChildren, source].sort(byRank('order'));
+            const index = siblings.indexOf(source);
+            ranks = ranksBetween(siblings[index - 1]?.order ?? null, siblings[index + 1]?.order ?? null, children.length);
+        } else {
+            ranks = ranksAfter(lastRank(targetChildren, 'order'), children.length);
         }
+        children.forEach((child, i) => pushUpdate(child, { parentId: targetId, order: ranks[i] }, batchOps, writes));
 
-        history.push({ type: 'BATCH', batchOperations: batchOps });
-        await fbatch.commit();
+        pushUpdate(source, { deletedAt: Date.now(), deletedWith: sourceId }, batchOps, writes);
+        await commitBatch(batchOps, writes, `Merged ${taskLabel(source)} into ${taskLabel(target)}`);
     },
 
-    async reorderSiblings(draggedId: string, newParentId: string, dropIndex: number) {
-        const tasksRef = getTasksCollection();
-        const draggedRef = doc(tasksRef, draggedId);
-        const snap = await getDoc(draggedRef);
-        if (!snap.exists()) return;
-
-        const draggedTask = snap.data() as Task;
-        const originalParent = draggedTask.parentId;
-        const originalOrder = draggedTask.order;
+    // Moves the task and its subtree to the Trash. Subtasks that were already there keep their own entry.
+    async deleteTask(id: string) {
+        const repo = getRepository();
+        const root = await repo.getTask(id);
+        if (!root || isTrashed(root)) return;
 
-        const q = query(tasksRef, where("parentId", "==", newParentId));
-        const querySnapshot = await getDocs(q);
-        const targetSiblings = querySnapshot.docs.map(d => d.data() as Task);
+        const tasks = [root, ...await getDescendants(id)];
+        const trashed: Partial<Task> = { deletedAt: Date.now(), deletedWith: id };
+        const batchOps: Operation[] = tasks.map(t => ({
+            type: 'UPDATE',
+            taskId: t.id,
+            prevUpdateSnapshot: { deletedAt: t.deletedAt ?? null, deletedWith: t.deletedWith ?? null },
+            newUpdateSnapshot: trashed
+        }));
+        const writes: TaskWrite[] = tasks.map(t => ({ type: 'update', id: t.id, changes: trashed }));
+
+        const subtaskCount = tasks.length - 1;
+        await commitBatch(batchOps, writes, `Deleted ${taskLabel(root)}${subtaskCount > 0 ? ` and ${plural(subtaskCount, 'subtask')}` : ''}`);
+    },
 
-        const listToReorder = targetSiblings
-            .filter(t => t.id !== draggedId)
-            .sort((a, b) => a.order - b.order);
+    // Brings a deleted subtree back under its original parent, or to the top level if that parent is gone
+    async restoreFromTrash(id: string) {
+        const repo = getRepository();
+        const root = await repo.getTask(id);
+        if (!root || root.deletedWith !== id) return;
 
-        listToReorder.splice(dropIndex, 0, draggedTask);
+        const parent = root.parentId === 'root' ? null : await repo.getTask(root.parentId);
+        const parentGone = root.parentId !== 'root' && (!parent || isTrashed(parent));
+        const restored: Partial<Task> = { deletedAt: null, deletedWith: null };
 
         const batchOps: Operation[] = [];
-        const fbatch = writeBatch(db);
-
-        if (originalParent !== newParentId) {
-            batchOps.push({
-                type: 'UPDATE',
-                taskId: draggedId,
-                prevUpdateSnapshot: { parentId: originalParent },
-                newUpdateSnapshot: { parentId: newParentId }
-            });
-            fbatch.update(draggedRef, { parentId: newParentId });
+        const writes: TaskWrite[] = [];
+        let rootChanges = restored;
+        if (parentGone) {
+            const siblings = (await findLiveTasks({ parentId: 'root' })).sort(byRank('order'));
+            const ranks = planPlacement(siblings, siblings.length, id, 'order');
+            rootChanges = { ...restored, parentId: 'root', order: ranks.get(id) };
+            pushRankUpdates(ranks, siblings, 'order', batchOps, writes);
         }
 
-        for (let i = 0; i < listToReorder.length; i++) {
-            const task = listToReorder[i];
-            if (task.id === draggedId && originalOrder !== i) {
-                batchOps.push({
-                    type: 'UPDATE', taskId: task.id,
-                    prevUpdateSnapshot: { order: originalOrder },
-                    newUpdateSnapshot: { order: i }
-                });
-                fbatch.update(doc(tasksRef, task.id), { order: i });
-            } else if (task.id !== draggedId && task.order !== i) {
-                batchOps.push({
-                    type: 'UPDATE', taskId: task.id,
-                    prevUpdateSnapshot: { order: task.order },
-                    newUpdateSnapshot: { order: i }
-                });
-                fbatch.update(doc(tasksRef, task.id), { order: i });
-            }
+        const members = await repo.findTasks({ deletedWith: id });
+        for (const t of members) {
+            const changes = t.id === id ? rootChanges : restored;
+            const prev: Partial<Task> = { deletedAt: t.deletedAt ?? null, deletedWith: t.deletedWith ?? null };
+            if (t.id === id && parentGone) Object.assign(prev, { parentId: t.parentId, order: t.order });
+            batchOps.push({ type: 'UPDATE', taskId: t.id, prevUpdateSnapshot: prev, newUpdateSnapshot: changes });
+            writes.push({ type: 'update', id: t.id, changes });
         }
 
-        if (batchOps.length > 0) {
-            history.push({ type: 'BATCH', batchOperations: batchOps });
-            await fbatch.commit();
+        await commitBatch(batchOps, writes, parentGone ? `Restored ${taskLabel(root)} to the top level` : `Restored ${taskLabel(root)}`);
+    },
+
+    // Permanent deletes below are not recorded in history; there is nothing left to undo them with
+    async purgeFromTrash(id: string) {
+        const members = await getRepository().findTasks({ deletedWith: id });
+        await getRepository().commit(members.map(t => ({ type: 'delete', id: t.id })));
+    },
+
+    async emptyTrash() {
+        const trashed = (await getRepository().findTasks()).filter(isTrashed);
+        await getRepository().commit(trashed.map(t => ({ type: 'delete', id: t.id })));
+    },
+
+    async purgeExpiredTrash(retentionDays: number) {
+        const cutoff = Date.now() - retentionDays * DAY_MS;
+        const expired = (await getRepository().findTasks()).filter(t => isTrashed(t) && t.deletedAt! < cutoff);
+        await getRepository().commit(expired.map(t => ({ type: 'delete', id: t.id })));
+    },
+
+    async reorderSiblings(draggedId: string, newParentId: string, dropIndex: number) {
+        const repo = getRepository();
+        const draggedTask = await repo.getTask(draggedId);
+        if (!draggedTask) return;
+
+        let description = `Reordered ${taskLabel(draggedTask)}`;
+        if (draggedTask.parentId !== newParentId) {
+            const newParent = newParentId === 'root' ? null : await repo.getTask(newParentId);
+            description = newParent
+                ? `Moved ${taskLabel(draggedTask)} under ${taskLabel(newParent)}`
+                : `Moved ${taskLabel(draggedTask)} to the top level`;
         }
+
+        const targetSiblings = await findLiveTasks({ parentId: newParentId });
+        await commitMove(draggedTask, targetSiblings, dropIndex, 'order', description, { parentId: newParentId });
     },
 
     async reorderInSection(draggedId: string, targetDate: string | null, dropIndex: number) {
-        const tasksRef = getTasksCollection();
-        const draggedRef = doc(tasksRef, draggedId);
-        const snap = await getDoc(draggedRef);
-        if (!snap.exists()) return;
-        const draggedTask = snap.data() as Task;
-
-        let targetTasks: Task[] = [];
-        if (targetDate) {
-            // Need all tasks to filter appropriately or simplify query
-            // Let's just fetch all and filter in memory to keep behavior identical
-            const allSnap = await getDocs(tasksRef);
-            targetTasks = allSnap.docs.map(d => d.data() as Task).filter(t => t.dueDate === targetDate);
-        } else {
-            // Null or empty
-            const allSnap = await getDocs(tasksRef);
-            targetTasks = allSnap.docs.map(d => d.data() as Task).filter(t => !t.dueDate);
+        const draggedTask = await getRepository().getTask(draggedId);
+        if (!draggedTask) return;
+
+        const targetTasks = await getSectionPeers(targetDate);
+        await commitMove(draggedTask, targetTasks, dropIndex, 'sectionOrder', `Reordered ${taskLabel(draggedTask)}`);
+    },
+
+    async toggleFocus(id: string, isFocused: boolean) {
+        if (!isFocused) return this.updateTask(id, { isFocused });
+
+        // Focusing appends the task to the end of the Focus list
+        const repo = getRepository();
+        const task = await repo.getTask(id);
+        if (!task) return;
+        const focused = (await findLiveTasks({ isFocused: true })).filter(t => t.id !== id);
+        await commitMove(task, focused, focused.length, 'focusOrder', `Added ${taskLabel(task)} to Focus`, { isFocused: true });
+    },
+
+    // Applies what quick add read from a new task's title as one undoable change.
+    // A new due date moves the task to the end of that day's section, focusing appends it to Focus.
+    async applyQuickAdd(id: string, fields: QuickAddFields) {
+        const task = await getRepository().getTask(id);
+        if (!task) return;
+
+        const changes: Partial<Task> = { text: fields.text };
+        if (fields.tags.length > 0) changes.tags = Array.from(new Set([...(task.tags || []), ...fields.tags]));
+        if (fields.dueDate) changes.dueDate = fields.dueDate;
+        if (fields.dueTime) changes.dueTime = fields.dueTime;
+        if (fields.recurrence) changes.recurrence = fields.recurrence;
+        if (fields.priority) changes.priority = toStoredPriority(fields.priority);
+        if (fields.isFocused && !task.isFocused) {
+            changes.isFocused = true;
+            const focused = (await findLiveTasks({ isFocused: true })).filter(t => t.id !== id);
+            changes.focusOrder = rankBetween(lastRank(focused, 'focusOrder'), null);
+        }
+
+        if (fields.dueDate && fields.dueDate !== task.dueDate) {
+            // At the end of the day it moves to
+            const sectionPeers = (await getSectionPeers(fields.dueDate)).filter(t => t.id !== id);
+            changes.sectionOrder = rankBetween(lastRank(sectionPeers, 'sectionOrder'), null);
         }
 
-        const listToReorder = targetTasks
-            .filter(t => t.id !== draggedId)
-            .sort((a, b) => (a.sectionOrder || 0) - (b.sectionOrder || 0));
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        pushUpdate(task, changes, batchOps, writes);
+        await commitBatch(batchOps, writes, `Added ${taskLabel({ text: fields.text })} with quick add`);
+    },
+
+    async reorderInFocus(draggedId: string, dropIndex: number) {
+        const draggedTask = await getRepository().getTask(draggedId);
+        if (!draggedTask) return;
+
+        const targetTasks = await findLiveTasks({ isFocused: true });
+        await commitMove(draggedTask, targetTasks, dropIndex, 'focusOrder', `Reordered ${taskLabel(draggedTask)} in Focus`);
+    },
+
+    // Bulk versions of the edits above for a multi-selection. Each one is a single history entry.
+
+    async setTasksCompleted(ids: string[], completed: boolean, completeSubtasks = getCompletionRules().completeSubtasks === 'always') {
+        const tasks = (await getLiveTasks(ids)).filter(t => t.completed !== completed);
+        if (tasks.length === 0) return;
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        const { description } = await planCompletion(tasks, completed, completeSubtasks, batchOps, writes);
+        await commitBatch(batchOps, writes, description);
+    },
+
+    // Rescheduled tasks go to the end of their new day's section
+    async rescheduleTasks(ids: string[], dueDate: string | null) {
+        const tasks = (await getLiveTasks(ids)).filter(t => (t.dueDate || null) !== dueDate);
+        const moving = new Set(tasks.map(t => t.id));
+        const peers = (await getSectionPeers(dueDate)).filter(t => !moving.has(t.id));
+        const ranks = ranksAfter(lastRank(peers, 'sectionOrder'), tasks.length);
 
-        listToReorder.splice(dropIndex, 0, draggedTask);
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        tasks.forEach((t, i) => pushUpdate(t, { dueDate, sectionOrder: ranks[i] }, batchOps, writes));
+        await commitBatch(batchOps, writes, dueDate
+            ? describeBulk('Scheduled', tasks, ` for ${format(parseISO(dueDate), 'MMM d')}`)
+            : describeBulk('Cleared due date of', tasks));
+    },
 
+    async addTagToTasks(ids: string[], tag: string) {
+        const tasks = (await getLiveTasks(ids)).filter(t => !(t.tags || []).includes(tag));
         const batchOps: Operation[] = [];
-        const fbatch = writeBatch(db);
+        const writes: TaskWrite[] = [];
+        tasks.forEach(t => pushUpdate(t, { tags: [...(t.tags || []), tag] }, batchOps, writes));
+        await commitBatch(batchOps, writes, describeBulk('Tagged', tasks, ` #${tag}`));
+    },
 
-        for (let i = 0; i < listToReorder.length; i++) {
-            const task = listToReorder[i];
-            if (task.sectionOrder !== i) {
+    async setTasksPriority(ids: string[], priority: Priority) {
+        const tasks = (await getLiveTasks(ids)).filter(t => getPriority(t) !== priority);
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        tasks.forEach(t => pushUpdate(t, { priority: toStoredPriority(priority) }, batchOps, writes));
+        await commitBatch(batchOps, writes, describeBulk('Set', tasks, ` to ${priorityLabel(priority)}`));
+    },
+
+    // Focusing appends the tasks to the end of the Focus list, in the order given
+    async setTasksFocused(ids: string[], isFocused: boolean) {
+        const tasks = (await getLiveTasks(ids)).filter(t => t.isFocused !== isFocused);
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        if (isFocused) {
+            const ranks = ranksAfter(lastRank(await findLiveTasks({ isFocused: true }), 'focusOrder'), tasks.length);
+            tasks.forEach((t, i) => pushUpdate(t, { isFocused, focusOrder: ranks[i] }, batchOps, writes));
+        } else {
+            tasks.forEach(t => pushUpdate(t, { isFocused }, batchOps, writes));
+        }
+        await commitBatch(batchOps, writes, isFocused ? describeBulk('Added', tasks, ' to Focus') : describeBulk('Removed', tasks, ' from Focus'));
+    },
+
+    // Trashes each selected subtree. Every topmost task keeps its own Trash entry so they can be restored one by one.
+    async deleteTasks(ids: string[]) {
+        const roots = await getTopmost(await getLiveTasks(ids));
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        const deletedAt = Date.now();
+        let subtaskCount = 0;
+        for (const root of roots) {
+            const descendants = await getDescendants(root.id);
+            subtaskCount += descendants.length;
+            const trashed: Partial<Task> = { deletedAt, deletedWith: root.id };
+            for (const t of [root, ...descendants]) {
                 batchOps.push({
-                    type: 'UPDATE', taskId: task.id,
-                    prevUpdateSnapshot: { sectionOrder: task.sectionOrder },
-                    newUpdateSnapshot: { sectionOrder: i }
+                    type: 'UPDATE',
+                    taskId: t.id,
+                    prevUpdateSnapshot: { deletedAt: t.deletedAt ?? null, deletedWith: t.deletedWith ?? null },
+                    newUpdateSnapshot: trashed
                 });
-                fbatch.update(doc(tasksRef, task.id), { sectionOrder: i });
+                writes.push({ type: 'update', id: t.id, changes: trashed });
             }
         }
+        await commitBatch(batchOps, writes, describeBulk('Deleted', roots, subtaskCount > 0 ? ` and ${plural(subtaskCount, 'subtask')}` : ''));
+    },
 
-        if (batchOps.length > 0) {
-            history.push({ type: 'BATCH', batchOperations: batchOps });
-            await fbatch.commit();
+    // Moves the tasks, in the order given, to `dropIndex` of the target's list as one block. The index counts the
+    // list as it is shown, moved tasks included; it defaults to the end. `changesFor` adds fields that change with
+    // the move, like the new due date when dropping into another section. Under a parent, subtasks of a moved task stay
+    // with it, and a task can't move under itself or one of its subtasks.
+    async moveTasks(ids: string[], target: MoveTarget, dropIndex = Infinity, changesFor: (task: Task) => Partial<Task> = () => ({})) {
+        const repo = getRepository();
+        let tasks = await getLiveTasks(ids);
+        let peers: Task[];
+        let description = describeBulk('Reordered', tasks);
+        if (target.field === 'order') {
+            tasks = await getTopmost(tasks);
+            const ancestry = await getAncestry(target.parentId);
+            if (tasks.some(t => ancestry.includes(t.id))) return;
+            peers = await findLiveTasks({ parentId: target.parentId });
+            if (tasks.some(t => t.parentId !== target.parentId)) {
+                const parent = target.parentId === 'root' ? null : await repo.getTask(target.parentId);
+                description = parent ? describeBulk('Moved', tasks, ` under ${taskLabel(parent)}`) : describeBulk('Moved', tasks, ' to the top level');
+            }
+        } else if (target.field === 'sectionOrder') {
+            peers = await getSectionPeers(target.dueDate);
+            if (target.dueDate && tasks.some(t => t.dueDate !== target.dueDate)) {
+                description = describeBulk('Moved', tasks, ` to ${format(parseISO(target.dueDate), 'MMM d')}`);
+            }
+        } else {
+            peers = await findLiveTasks({ isFocused: true });
+            description = describeBulk('Reordered', tasks, ' in Focus');
         }
-    },
+        if (tasks.length === 0) return;
 
-    async toggleFocus(id: string, isFocused: boolean) {
-        const updates: Partial<Task> = { isFocused };
-        if (isFocused) {
-            updates.focusOrder = Date.now();
+        const field = target.field;
+        const moving = new Set(tasks.map(t => t.id));
+        const sorted = peers.sort(byRank(field));
+        const others = sorted.filter(t => !moving.has(t.id));
+        const movedBefore = sorted.slice(0, Math.max(0, dropIndex)).filter(t => moving.has(t.id)).length;
+        const index = Math.min(Math.max(0, dropIndex - movedBefore), others.length);
+        const ranks = planBlockPlacement(others, index, tasks.map(t => t.id), field);
+
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        for (const task of tasks) {
+            const changes: Partial<Task> = { ...changesFor(task), [field]: ranks.get(task.id) };
+            if (target.field === 'order') changes.parentId = target.parentId;
+            pushUpdate(task, changes, batchOps, writes);
         }
-        return this.updateTask(id, updates);
+        pushRankUpdates(ranks, others, field, batchOps, writes);
+        await commitBatch(batchOps, writes, description);
     },
 
-    async reorderInFocus(draggedId: string, dropIndex: number) {
-        const tasksRef = getTasksCollection();
-        const draggedRef = doc(tasksRef, draggedId);
-        const snap = await getDoc(draggedRef);
-        if (!snap.exists()) return;
-        const draggedTask = snap.data() as Task;
+    // Drops cards into a board column, at `dropIndex` of `columnIds`: the column's cards as shown, moved ones
+    // included. `changesFor` gives each task what the column stands for. Completing follows the completion rules
+    // and a new due date puts the task at the end of that day's section, as when they change anywhere else.
+    async moveOnBoard(
+        ids: string[],
+        columnIds: string[],
+        dropIndex: number,
+        changesFor: (task: Task) => Partial<Task>,
+        columnLabel: string,
+        completeSubtasks = getCompletionRules().completeSubtasks === 'always'
+    ) {
+        const tasks = await getLiveTasks(ids);
+        if (tasks.length === 0) return;
+        const moving = new Set(tasks.map(t => t.id));
+        const shown = await getLiveTasks(columnIds);
+        const others = shown.filter(t => !moving.has(t.id));
+        const movedBefore = shown.slice(0, Math.max(0, dropIndex)).filter(t => moving.has(t.id)).length;
+        const index = Math.min(Math.max(0, dropIndex - movedBefore), others.length);
+        const ranks = planBlockPlacement(others, index, tasks.map(t => t.id), 'boardOrder');
 
-        const q = query(tasksRef, where("isFocused", "==", true));
-        const allSnap = await getDocs(q);
-        const targetTasks = allSnap.docs.map(d => d.data() as Task);
+        const batchOps: Operation[] = [];
+        const writes: TaskWrite[] = [];
+        const planned = tasks.map(task => ({ task, changes: changesFor(task) }));
+        // Completion goes through the rules; every moved card goes the same way
+        const completing = planned.filter(p => p.changes.completed !== undefined && p.changes.completed !== p.task.completed);
+        const movedDays = planned.filter(p => 'dueDate' in p.changes && (p.changes.dueDate || null) !== (p.task.dueDate || null));
+        // New section ranks per day, after the tasks already there
+        const sectionRanks = new Map<string | null, string[]>();
+        for (const dueDate of new Set(movedDays.map(p => p.changes.dueDate || null))) {
+            const peers = (await getSectionPeers(dueDate)).filter(t => !moving.has(t.id));
+            sectionRanks.set(dueDate, ranksAfter(lastRank(peers, 'sectionOrder'), movedDays.filter(p => (p.changes.dueDate || null) === dueDate).length));
+        }
+
+        let changedColumn = completing.length > 0;
+        for (const { task, changes } of planned) {
+            const fields = { ...changes };
+            delete fields.completed;
+            if (movedDays.some(p => p.task === task)) fields.sectionOrder = sectionRanks.get(fields.dueDate || null)!.shift();
+            if ((Object.keys(fields) as Array<keyof typeof fields>).some(key => fields[key] !== task[key])) changedColumn = true;
+            pushUpdate(task, { ...fields, boardOrder: ranks.get(task.id) }, batchOps, writes);
+        }
+        if (completing.length > 0) {
+            await planCompletion(completing.map(p => p.task), !!completing[0].changes.completed, completeSubtasks, batchOps, writes);
+        }
+        pushRankUpdates(ranks, others, 'boardOrder', batchOps, writes);
+        await commitBatch(batchOps, writes, changedColumn
+            ? describeBulk('Moved', tasks, ` to ${columnLabel}`)
+            : describeBulk('Reordered', tasks, ' on the board'));
+    },
 
-        const listToReorder = targetTasks
-            .filter(t => t.id !== draggedId)
-            .sort((a, b) => (a.focusOrder || 0) - (b.focusOrder || 0));
+    // Adds a whole imported tree as one undoable batch, with fresh ids so nothing collides with existing tasks.
+    // The imported top-level tasks go under `parentId` (default the top level): after `insertAfterId` when given,
+    // otherwise after the existing children. Replacing deletes all current tasks first (the Trash is left alone).
+    // `updates` are applied to existing tasks in the same batch, for imports that sync rather than only add.
+    async importTasks(
+        imported: ImportedTask[],
+        options: {
+            replace?: boolean;
+            parentId?: string;
+            insertAfterId?: string;
+            updates?: { id: string; changes: Partial<Task> }[];
+            description?: string;
+        } = {}
+    ) {
+        const uid = getUserId();
+        const existing = await findLiveTasks();
+        const existingById = new Map(existing.map(t => [t.id, t]));
+        const replace = !!options.replace;
+        const targetId = replace ? 'root' : options.parentId ?? 'root';
+        const now = Date.now();
+
+        const idMap = new Map(imported.map(t => [t.id, generateId()]));
+        const parentOf = (t: ImportedTask) =>
+            idMap.has(t.parentId) || (!replace && existingById.has(t.parentId)) ? t.parentId : 'root';
+
+        const groups = new Map<string, ImportedTask[]>();
+        imported.forEach(t => groups.set(parentOf(t), [...(groups.get(parentOf(t)) || []), t]));
+
+        // Top-level ranks slot in among the target's current children
+        const targetChildren = replace ? [] : existing.filter(t => t.parentId === targetId).sort(byRank('order'));
+        const afterIndex = targetChildren.findIndex(t => t.id === options.insertAfterId);
+        const next = afterIndex === -1 ? undefined : targetChildren[afterIndex + 1];
+        const topRanks = (count: number) => next && targetChildren[afterIndex].order < next.order
+            ? ranksBetween(targetChildren[afterIndex].order, next.order, count)
+            : ranksAfter(lastRank(targetChildren, 'order'), count);
+
+        const order = new Map<string, string>();
+        groups.forEach((siblings, parentId) => {
+            const ranks = parentId === 'root' ? topRanks(siblings.length)
+                : idMap.has(parentId) ? spreadRanks(siblings.length)
+                    : ranksAfter(lastRank(existing.filter(t => t.parentId === parentId), 'order'), siblings.length);
+            sortImported(siblings, 'order').forEach((t, i) => order.set(t.id, ranks[i]));
+        });
 
-        listToReorder.splice(dropIndex, 0, draggedTask);
+        const assignAfterExisting = (items: ImportedTask[], field: RankField, peers: Task[]) => {
+            const ranks = ranksAfter(replace ? null : lastRank(peers, field), items.length);
+            return new Map(sortImported(items, field).map((t, i) => [t.id, ranks[i]]));
+        };
+        const sectionOrder = assignAfterExisting(imported, 'sectionOrder', existing);
+        const focusOrder = assignAfterExisting(imported.filter(t => t.isFocused), 'focusOrder', existing.filter(t => t.isFocused));
+
+        const created: Task[] = imported.map(t => {
+            const task: Task = {
+                id: idMap.get(t.id)!,
+                parentId: parentOf(t) === 'root' ? targetId : idMap.get(t.parentId) ?? t.parentId,
+                text: t.text,
+                notes: t.notes ?? '',
+                completed: !!t.completed,
+                dueDate: t.dueDate ?? null,
+                tags: t.tags ?? [],
+                order: order.get(t.id)!,
+                sectionOrder: sectionOrder.get(t.id)!,
+                isFocused: !!t.isFocused,
+                createdAt: t.createdAt ?? now,
+                userId: uid
+            };
+            // Optional fields are left out rather than set to undefined, which Firestore rejects
+            if (t.isFocused) task.focusOrder = focusOrder.get(t.id);
+            if (t.recurrence) task.recurrence = t.recurrence;
+            if (t.dueTime) task.dueTime = t.dueTime;
+            if (t.reminders?.length) task.reminders = t.reminders;
+            if (t.duration) task.duration = t.duration;
+            if (t.priority) task.priority = t.priority;
+            if (t.timeZone) task.timeZone = t.timeZone;
+            if (t.icalUid) task.icalUid = t.icalUid;
+            // Only compared with each other, so they can be kept as they are
+            if (t.boardOrder) task.boardOrder = t.boardOrder;
+            if (t.nextOccurrenceId && idMap.has(t.nextOccurrenceId)) task.nextOccurrenceId = idMap.get(t.nextOccurrenceId);
+            return task;
+        });
 
         const batchOps: Operation[] = [];
-        const fbatch = writeBatch(db);
-
-        for (let i = 0; i < listToReorder.length; i++) {
-            const task = listToReorder[i];
-            if (task.focusOrder !== i) {
-                batchOps.push({
-                    type: 'UPDATE', taskId: task.id,
-                    prevUpdateSnapshot: { focusOrder: task.focusOrder },
-                    newUpdateSnapshot: { focusOrder: i }
-                });
-                fbatch.update(doc(tasksRef, task.id), { focusOrder: i });
-            }
+        const writes: TaskWrite[] = [];
+        if (replace) {
+            existing.forEach(t => {
+                batchOps.push({ type: 'DELETE', taskId: t.id, taskSnapshot: t });
+                writes.push({ type: 'delete', id: t.id });
+            });
         }
-
-        if (batchOps.length > 0) {
-            history.push({ type: 'BATCH', batchOperations: batchOps });
-            await fbatch.commit();
+        created.forEach(t => {
+            batchOps.push({ type: 'ADD', taskId: t.id, taskSnapshot: t });
+            writes.push({ type: 'set', task: t });
+        });
+        for (const { id, changes } of options.updates || []) {
+            const task = existingById.get(id);
+            if (!task) continue;
+            const prevSnapshot: Partial<Task> = pickFields(task, Object.keys(changes) as Array<keyof Task>);
+            batchOps.push({ type: 'UPDATE', taskId: id, prevUpdateSnapshot: prevSnapshot, newUpdateSnapshot: changes });
+            writes.push({ type: 'update', id, changes });
         }
+
+        await commitBatch(batchOps, writes, options.description ?? (replace
+            ? `Replaced all tasks with ${plural(created.length, 'imported task')}`
+            : `Imported ${plural(created.length, 'task')}`));
+        return created;
+    },
+
+    // One-time conversion of the old integer order/sectionOrder/focusOrder fields into rank keys.
+    // Not recorded in history since it does not change what the user sees.
+    async migrateLegacyRanks() {
+        const repo = getRepository();
+        const tasks = await repo.findTasks();
+        const isLegacy = (value: unknown) => typeof value === 'number';
+        if (!tasks.some(t => isLegacy(t.order) || isLegacy(t.sectionOrder) || isLegacy(t.focusOrder))) return;
+
+        // Tasks already on rank keys sort after all numbered ones
+        const numericOf = (value: unknown) => typeof value === 'number' ? value : Infinity;
+        const changes = new Map<string, Partial<Task>>();
+        const assign = (list: Task[], field: RankField) => {
+            const sorted = [...list].sort((a, b) => numericOf(a[field]) - numericOf(b[field]));
+            const ranks = spreadRanks(sorted.length);
+            sorted.forEach((t, i) => changes.set(t.id, { ...changes.get(t.id), [field]: ranks[i] }));
+        };
+
+        const byParent = new Map<string, Task[]>();
+        tasks.forEach(t => byParent.set(t.parentId, [...(byParent.get(t.parentId) || []), t]));
+        byParent.forEach(siblings => assign(siblings, 'order'));
+        assign(tasks, 'sectionOrder');
+        assign(tasks.filter(t => t.isFocused), 'focusOrder');
+
+        await repo.commit(Array.from(changes, ([id, fields]) => ({ type: 'update', id, changes: fields })));
+    },
+
+    // The task followed by all its descendants outside the Trash
+    async getSubtree(id: string) {
+        const root = await getRepository().getTask(id);
+        return root ? [root, ...await getDescendants(id)] : [];
     },
 
     async getAllTags() {
         // Need to catch errors here if user is not logged in since sidebar renders immediately
         try {
-            const tasksRef = getTasksCollection();
-            const allSnap = await getDocs(tasksRef);
+            const allTasks = await findLiveTasks();
             const tags = new Set<string>();
-            allSnap.docs.forEach(d => {
-                const task = d.data() as Task;
-                (task.tags || []).forEach(tag => tags.add(tag));
-            });
+            allTasks.forEach(task => (task.tags || []).forEach(tag => tags.add(tag)));
             return Array.from(tags).sort();
-        } catch (e) {
+        } catch {
             return [];
         }
     }
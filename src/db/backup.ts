@@ -0,0 +1,129 @@
+import { format } from 'date-fns';
+import { type Priority, type Task } from './db';
+import { getRepository } from './repository';
+import { isTrashed } from './trash';
+import { PRIORITIES } from './priority';
+
+export const BACKUP_FORMAT = 'todo-backup';
+export const BACKUP_VERSION = 1;
+
+// Everything about a task except who owns it; ids are only meaningful inside the file
+export type BackupTask = Omit<Task, 'userId' | 'deletedAt' | 'deletedWith' | 'snoozedUntil'>;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;  // ISO timestamp
+    tasks: BackupTask[];
+}
+
+export class BackupError extends Error { }
+
+const toBackupTask = (task: Task): BackupTask => {
+    const copy: Partial<Task> = { ...task };
+    delete copy.userId;
+    delete copy.deletedAt;
+    delete copy.deletedWith;
+    delete copy.snoozedUntil;
+    return copy as BackupTask;
+};
+
+// Snapshot of every task outside the Trash
+export const exportBackup = async (): Promise<BackupFile> => {
+    const tasks = (await getRepository().findTasks()).filter(t => !isTrashed(t));
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        tasks: tasks.map(toBackupTask)
+    };
+};
+
+export const backupFileName = () => `todo-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isReminder = (r: unknown) =>
+    isRecord(r) && typeof r.id === 'string' &&
+    ((r.type === 'before' && typeof r.minutes === 'number' && r.minutes >= 0) || (r.type === 'at' && typeof r.time === 'number'));
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+// Every field of a RecurrenceRule, since the rows and the next occurrence read all of them
+const isRecurrenceRule = (r: unknown) =>
+    isRecord(r) && FREQUENCIES.includes(r.frequency as string) && isCount(r.interval) &&
+    Array.isArray(r.weekdays) && r.weekdays.every(d => Number.isInteger(d) && d >= 0 && d <= 6) &&
+    (r.mode === 'fixed' || r.mode === 'afterCompletion') &&
+    (r.endDate === null || (typeof r.endDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(r.endDate))) &&
+    (r.count === null || isCount(r.count)) &&
+    isCount(r.occurrence) &&
+    (r.dayOfMonth === undefined || r.dayOfMonth === null || (isCount(r.dayOfMonth) && (r.dayOfMonth as number) <= 31));
+
+// Checks one task's fields, returning a problem description or null
+const checkTask = (t: Record<string, unknown>) => {
+    if (typeof t.id !== 'string' || !t.id || t.id === 'root') return 'id must be a non-empty string';
+    if (typeof t.parentId !== 'string' || !t.parentId) return 'parentId must be a non-empty string';
+    if (typeof t.text !== 'string') return 'text must be a string';
+    if (t.notes !== undefined && typeof t.notes !== 'string') return 'notes must be a string';
+    if (t.completed !== undefined && typeof t.completed !== 'boolean') return 'completed must be true or false';
+    if (t.dueDate !== undefined && t.dueDate !== null && (typeof t.dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(t.dueDate))) {
+        return 'dueDate must be null or a yyyy-MM-dd date';
+    }
+    if (t.dueTime !== undefined && t.dueTime !== null && (typeof t.dueTime !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(t.dueTime))) {
+        return 'dueTime must be null or an HH:mm time';
+    }
+    if (t.duration !== undefined && t.duration !== null && (typeof t.duration !== 'number' || t.duration <= 0)) return 'duration must be a number of minutes';
+    if (t.reminders !== undefined && (!Array.isArray(t.reminders) || !t.reminders.every(isReminder))) return 'reminders must be a list of reminders';
+    if (t.tags !== undefined && (!Array.isArray(t.tags) || t.tags.some(tag => typeof tag !== 'string'))) return 'tags must be a list of strings';
+    for (const field of ['order', 'sectionOrder', 'focusOrder', 'boardOrder', 'nextOccurrenceId', 'icalUid', 'timeZone']) {
+        if (t[field] !== undefined && t[field] !== null && typeof t[field] !== 'string') return `${field} must be a string`;
+    }
+    if (t.priority !== undefined && t.priority !== null && !PRIORITIES.includes(t.priority as Priority)) return 'priority must be null or 1 to 4';
+    if (t.isFocused !== undefined && typeof t.isFocused !== 'boolean') return 'isFocused must be true or false';
+    if (t.createdAt !== undefined && typeof t.createdAt !== 'number') return 'createdAt must be a timestamp';
+    if (t.recurrence !== undefined && t.recurrence !== null && !isRecurrenceRule(t.recurrence)) return 'recurrence is not a valid repeat rule';
+    return null;
+};
+
+// Parses and validates a backup file. Throws BackupError with a readable message when it can't be imported.
+export const parseBackup = (text: string): BackupFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BackupError('This file is not valid JSON.');
+    }
+
+    if (!isRecord(data) || data.format !== BACKUP_FORMAT) throw new BackupError('This file is not a task backup.');
+    if (typeof data.version !== 'number') throw new BackupError('The backup has no version number.');
+    if (data.version > BACKUP_VERSION) throw new BackupError('This backup was made by a newer version of the app.');
+    if (!Array.isArray(data.tasks)) throw new BackupError('The backup has no task list.');
+
+    const ids = new Set<string>();
+    data.tasks.forEach((t: unknown, i: number) => {
+        if (!isRecord(t)) throw new BackupError(`Task ${i + 1} is not an object.`);
+        const problem = checkTask(t);
+        if (problem) throw new BackupError(`Task ${i + 1}${typeof t.text === 'string' ? ` ("${t.text}")` : ''}: ${problem}.`);
+        if (ids.has(t.id as string)) throw new BackupError(`Task id "${t.id}" appears more than once.`);
+        ids.add(t.id as string);
+    });
+
+    const tasks = data.tasks as BackupTask[];
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    for (const task of tasks) {
+        if (task.parentId !== 'root' && !byId.has(task.parentId)) {
+            throw new BackupError(`"${task.text}" belongs to a parent that is not in the backup.`);
+        }
+        // Walking up must reach the top level without revisiting a task
+        const seen = new Set<string>();
+        for (let t: BackupTask | undefined = task; t; t = byId.get(t.parentId)) {
+            if (seen.has(t.id)) throw new BackupError(`"${task.text}" is nested inside itself.`);
+            seen.add(t.id);
+        }
+    }
+
+    return { format: BACKUP_FORMAT, version: data.version, exportedAt: String(data.exportedAt ?? ''), tasks };
+};
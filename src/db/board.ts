@@ -0,0 +1,104 @@
+import { addDays } from 'date-fns';
+import { type Priority, type Task } from './db';
+import { dueDateOnLocalDay, getDueBucket, toDateString } from './dates';
+import { compareRanks } from './rank';
+import { getPriority, PRIORITIES, PRIORITY_NAMES, priorityLabel, toStoredPriority } from './priority';
+
+// What the columns of the board stand for. Dragging a card to another column changes that field.
+export type BoardGrouping = 'status' | 'tag' | 'priority' | 'date';
+
+export const BOARD_GROUPINGS: { id: BoardGrouping; label: string }[] = [
+    { id: 'status', label: 'Status' },
+    { id: 'tag', label: 'Tag' },
+    { id: 'priority', label: 'Priority' },
+    { id: 'date', label: 'Date' }
+];
+
+export const isBoardGrouping = (value: unknown): value is BoardGrouping => BOARD_GROUPINGS.some(g => g.id === value);
+
+// How the views show their tasks: the outline, or a board with its columns grouped by a field
+export type Layout = 'list' | BoardGrouping;
+
+const LAYOUT_KEY = 'layout';
+
+// Stored per device, like the theme
+export const loadLayout = (): Layout => {
+    const saved = localStorage.getItem(LAYOUT_KEY);
+    return isBoardGrouping(saved) ? saved : 'list';
+};
+
+export const saveLayout = (layout: Layout) => {
+    localStorage.setItem(LAYOUT_KEY, layout);
+};
+
+export interface BoardColumn {
+    id: string;
+    label: string;
+    // In board order
+    tasks: Task[];
+    // Past only takes the cards already in it, since no date to move a task to is in the past
+    acceptsDrops: boolean;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const UNTAGGED = 'untagged';
+
+// The board shows the top tasks of the view, the ones whose parent isn't shown; subtasks count in their progress.
+// Cards without a board position yet keep the view's order, ahead of the placed ones.
+const getCards = (tasks: Task[]) => {
+    const shown = new Set(tasks.map(t => t.id));
+    return tasks.filter(t => !shown.has(t.parentId)).sort((a, b) => compareRanks(a.boardOrder, b.boardOrder));
+};
+
+export const getBoardColumns = (tasks: Task[], grouping: BoardGrouping, now = new Date()): BoardColumn[] => {
+    const cards = getCards(tasks);
+    const column = (id: string, label: string, match: (task: Task) => boolean, acceptsDrops = true) =>
+        ({ id, label, tasks: cards.filter(match), acceptsDrops });
+
+    switch (grouping) {
+        case 'status': return [
+            column('open', 'Open', t => !t.completed),
+            column('completed', 'Completed', t => t.completed)
+        ];
+        case 'priority': return PRIORITIES.map(p =>
+            column(String(p), `${priorityLabel(p)} ${PRIORITY_NAMES[p]}`, t => getPriority(t) === p)
+        );
+        case 'date': return [
+            column('past', 'Past', t => getDueBucket(t, now) === 'past', false),
+            column('today', 'Today', t => getDueBucket(t, now) === 'today'),
+            column('upcoming', 'Upcoming', t => getDueBucket(t, now) === 'upcoming'),
+            column('nodate', 'No Date', t => getDueBucket(t, now) === null)
+        ];
+        case 'tag': {
+            // A task with several tags shows in each of their columns
+            const tags = [...new Set(cards.flatMap(t => t.tags ?? []))].sort(collator.compare);
+            return [
+                column(UNTAGGED, 'No tag', t => !t.tags?.length),
+                ...tags.map(tag => column(`tag:${tag}`, `#${tag}`, t => !!t.tags?.includes(tag)))
+            ];
+        }
+    }
+};
+
+// What moving a card from one column to another changes on the task
+export const getColumnChanges = (task: Task, grouping: BoardGrouping, fromId: string, toId: string, now = new Date()): Partial<Task> => {
+    switch (grouping) {
+        case 'status': return { completed: toId === 'completed' };
+        case 'priority': return { priority: toStoredPriority(Number(toId) as Priority) };
+        case 'date': {
+            // Upcoming tasks dragged there stay on their day; others move to tomorrow
+            if (toId === 'upcoming') return getDueBucket(task, now) === 'upcoming' ? {} : { dueDate: dueDateOnLocalDay(task, toDateString(addDays(now, 1))) };
+            if (toId === 'today') return { dueDate: dueDateOnLocalDay(task, toDateString(now)) };
+            return toId === 'nodate' ? { dueDate: null } : {};
+        }
+        case 'tag': {
+            // No tag means none at all, or the card would show up in another tag's column
+            if (toId === UNTAGGED) return { tags: [] };
+            // Swaps the tag of the column it came from for the one of the column it goes to
+            const tags = (task.tags ?? []).filter(tag => `tag:${tag}` !== fromId);
+            const tag = toId.slice('tag:'.length);
+            return { tags: tags.includes(tag) ? tags : [...tags, tag] };
+        }
+    }
+};
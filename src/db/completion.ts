@@ -0,0 +1,92 @@
+import { type Task } from './db';
+import { isTrashed } from './trash';
+
+// How completing a task and its subtasks affect each other
+export interface CompletionRules {
+    // Completing a task with open subtasks: complete them too, ask each time, or leave them open
+    completeSubtasks: 'always' | 'ask' | 'never';
+    // Completing the last open subtask completes its parent, and so on up
+    completeParentWithLastSubtask: boolean;
+    // Reopening a subtask reopens its completed parents, so a done task never hides open work
+    reopenParents: boolean;
+}
+
+export const DEFAULT_COMPLETION_RULES: CompletionRules = {
+    completeSubtasks: 'ask',
+    completeParentWithLastSubtask: false,
+    reopenParents: true
+};
+
+const RULES_KEY = 'completionRules';
+
+// Stored per device, like the theme
+export const getCompletionRules = (): CompletionRules => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(RULES_KEY) || '{}');
+        return {
+            completeSubtasks: ['always', 'ask', 'never'].includes(saved.completeSubtasks) ? saved.completeSubtasks : DEFAULT_COMPLETION_RULES.completeSubtasks,
+            completeParentWithLastSubtask: typeof saved.completeParentWithLastSubtask === 'boolean'
+                ? saved.completeParentWithLastSubtask
+                : DEFAULT_COMPLETION_RULES.completeParentWithLastSubtask,
+            reopenParents: typeof saved.reopenParents === 'boolean' ? saved.reopenParents : DEFAULT_COMPLETION_RULES.reopenParents
+        };
+    } catch {
+        return DEFAULT_COMPLETION_RULES;
+    }
+};
+
+export const setCompletionRules = (rules: CompletionRules) => {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export interface Progress {
+    done: number;
+    total: number;
+}
+
+// Completed and total subtasks at any depth, for every task that has some. Tasks in the Trash don't count.
+export const getSubtreeProgress = (tasks: Task[]) => {
+    const childrenOf = new Map<string, Task[]>();
+    tasks.forEach(t => {
+        if (isTrashed(t)) return;
+        const siblings = childrenOf.get(t.parentId);
+        if (siblings) siblings.push(t);
+        else childrenOf.set(t.parentId, [t]);
+    });
+
+    const progress = new Map<string, Progress>();
+    const visit = (id: string, seen: Set<string>): Progress => {
+        const cached = progress.get(id);
+        if (cached) return cached;
+        const result = { done: 0, total: 0 };
+        for (const child of childrenOf.get(id) ?? []) {
+            // A broken parent link could loop
+            if (seen.has(child.id)) continue;
+            const below = visit(child.id, new Set([...seen, child.id]));
+            result.done += below.done + (child.completed ? 1 : 0);
+            result.total += below.total + 1;
+        }
+        if (result.total > 0) progress.set(id, result);
+        return result;
+    };
+    childrenOf.forEach((_, parentId) => {
+        if (parentId !== 'root') visit(parentId, new Set([parentId]));
+    });
+    return progress;
+};
+
+// Open subtasks at any depth of the given tasks, each counted once, leaving out the given tasks themselves
+export const countOpenSubtasks = (ids: string[], tasks: Task[]) => {
+    const seen = new Set(ids);
+    let open = 0;
+    let frontier = new Set(ids);
+    while (frontier.size > 0) {
+        const children = tasks.filter(t => frontier.has(t.parentId) && !isTrashed(t) && !seen.has(t.id));
+        children.forEach(t => {
+            seen.add(t.id);
+            if (!t.completed) open++;
+        });
+        frontier = new Set(children.map(t => t.id));
+    }
+    return open;
+};
@@ -0,0 +1,110 @@
+import { addDays, differenceInCalendarDays, endOfDay, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { type Task } from './db';
+
+// Due dates are yyyy-MM-dd calendar days with an optional HH:mm time. Without a time zone the time is
+// "floating": 9:00 stays 9:00 wherever the device is. A task pinned to a time zone happens at that zone's
+// wall-clock time, so on a device elsewhere it can land on a different local day and hour.
+
+type DueFields = Pick<Task, 'dueDate' | 'dueTime' | 'timeZone'>;
+
+export const DATE_FORMAT = 'yyyy-MM-dd';
+
+// yyyy-MM-dd as local midnight (new Date('yyyy-MM-dd') would be UTC midnight)
+export const parseLocalDate = (date: string) => {
+    const [y, m, d] = date.split('-').map(part => parseInt(part, 10));
+    return new Date(y, m - 1, d);
+};
+
+export const toDateString = (date: Date) => format(date, DATE_FORMAT);
+
+export const todayString = () => toDateString(new Date());
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getTimeZones = () => Intl.supportedValuesOf('timeZone');
+
+// Offset of `timeZone` from UTC at `instant`, in milliseconds
+const getTimeZoneOffset = (timeZone: string, instant: number) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// The moment a wall-clock time in `timeZone` happens
+const zonedTimeToInstant = (date: string, time: string, timeZone: string) => {
+    const [y, m, d] = date.split('-').map(part => parseInt(part, 10));
+    const [hh, mm] = time.split(':').map(part => parseInt(part, 10));
+    const wall = Date.UTC(y, m - 1, d, hh, mm);
+    // The offset at the guess can differ from the one at the result across a DST change; a second pass settles it
+    const guess = wall - getTimeZoneOffset(timeZone, wall);
+    return new Date(wall - getTimeZoneOffset(timeZone, guess));
+};
+
+const isPinned = (task: DueFields) => !!(task.dueTime && task.timeZone);
+
+// When the task is due: its due time, or the start of its due day when it has none
+export const getDueInstant = (task: DueFields): Date | null => {
+    if (!task.dueDate) return null;
+    if (!task.dueTime) return parseLocalDate(task.dueDate);
+    if (isPinned(task)) return zonedTimeToInstant(task.dueDate, task.dueTime, task.timeZone!);
+    const [hh, mm] = task.dueTime.split(':').map(part => parseInt(part, 10));
+    const local = parseLocalDate(task.dueDate);
+    local.setHours(hh, mm);
+    return local;
+};
+
+// The day the task is due on this device, as yyyy-MM-dd
+export const getLocalDueDate = (task: DueFields) =>
+    isPinned(task) ? toDateString(getDueInstant(task)!) : task.dueDate ?? null;
+
+// The due time on this device, as HH:mm
+export const getLocalDueTime = (task: DueFields) =>
+    isPinned(task) ? format(getDueInstant(task)!, 'HH:mm') : task.dueTime ?? null;
+
+export type DueBucket = 'past' | 'today' | 'upcoming';
+
+// Which day-based section a task falls into, by its local due day
+export const getDueBucket = (task: DueFields, now = new Date()): DueBucket | null => {
+    const due = getLocalDueDate(task);
+    if (!due) return null;
+    const day = parseLocalDate(due);
+    if (isBefore(day, startOfDay(now))) return 'past';
+    if (isAfter(day, endOfDay(now))) return 'upcoming';
+    return 'today';
+};
+
+// Past its due time, or past its due day when it has no time
+export const isOverdue = (task: DueFields & Pick<Task, 'completed'>, now = new Date()) => {
+    if (task.completed || !task.dueDate) return false;
+    return task.dueTime ? getDueInstant(task)! < now : getLocalDueDate(task)! < toDateString(now);
+};
+
+// The dueDate that puts the task on local day `date` while keeping its time (and zone)
+export const dueDateOnLocalDay = (task: DueFields, date: string | null) => {
+    const current = getLocalDueDate(task);
+    if (!date || !task.dueDate || !current) return date;
+    const shift = differenceInCalendarDays(parseLocalDate(date), parseLocalDate(current));
+    return toDateString(addDays(parseLocalDate(task.dueDate), shift));
+};
+
+// 90 -> "1h 30m"
+export const formatDuration = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return [h ? `${h}h` : '', m ? `${m}m` : ''].filter(Boolean).join(' ') || '0m';
+};
+
+// Short label for task rows: "Nov 3", "Nov 3, 09:00", plus "–10:30" when it has a duration
+export const formatDue = (task: DueFields & Pick<Task, 'duration'>) => {
+    const date = getLocalDueDate(task);
+    if (!date) return '';
+    const time = getLocalDueTime(task);
+    const label = format(parseLocalDate(date), 'MMM d');
+    if (!time) return label;
+    const end = task.duration ? format(new Date(getDueInstant(task)!.getTime() + task.duration * 60000), 'HH:mm') : null;
+    return `${label}, ${time}${end ? `–${end}` : ''}`;
+};
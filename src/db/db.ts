@@ -1,4 +1,27 @@
-import { db, auth } from './firebase';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// fixed: next due date follows the schedule from the previous due date.
+// afterCompletion: next due date is counted from the day the task was completed.
+export type RecurrenceMode = 'fixed' | 'afterCompletion';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number;          // Every N days/weeks/months/years
+    weekdays: number[];        // Weekly only, 0 = Sunday. Empty means the due date's weekday
+    mode: RecurrenceMode;
+    endDate: string | null;    // Last allowed due date (yyyy-MM-dd)
+    count: number | null;      // Total number of occurrences
+    occurrence: number;        // Which occurrence this task is, starting at 1
+    dayOfMonth?: number | null; // Monthly and yearly: the day the repeats fall on, kept through shorter months
+}
+
+// When to be notified: some minutes before the due time (0 = at the due time), or at a fixed moment
+export type Reminder =
+    | { id: string; type: 'before'; minutes: number }
+    | { id: string; type: 'at'; time: number };   // Epoch milliseconds
+
+// 1 is the most important. Tasks without one count as 4
+export type Priority = 1 | 2 | 3 | 4;
 
 export interface Task {
     id: string;
@@ -7,13 +30,28 @@ export interface Task {
     notes?: string;
     completed: boolean;
     dueDate: string | null;
+    dueTime?: string | null;         // HH:mm on the due date; none means due any time that day
+    duration?: number | null;        // Minutes, counted from the due time
+    timeZone?: string | null;        // IANA zone the due time is pinned to; none keeps it at local time wherever you are
+    reminders?: Reminder[];
+    snoozedUntil?: number | null;    // A snoozed reminder fires again at this moment
     tags: string[];
-    order: number;
-    sectionOrder?: number;
+    order: string;             // Rank key among siblings (see rank.ts)
+    sectionOrder?: string;     // Rank key within the dated section
+    priority?: Priority | null;
     isFocused?: boolean;
-    focusOrder?: number;
+    focusOrder?: string;       // Rank key within the Focus list
+    boardOrder?: string;       // Rank key within a board column, shared by all the ways of grouping one
+    recurrence?: RecurrenceRule | null;
+    nextOccurrenceId?: string | null; // Set once the next occurrence of a recurring task has been created
+    icalUid?: string;                // UID of the calendar item this task was imported from
+    deletedAt?: number | null;       // Set while the task is in the Trash
+    deletedWith?: string | null;     // Id of the task whose deletion put this one in the Trash (itself for the top one)
     createdAt: number;
     userId: string;
 }
 
-export { db, auth };
+// The given fields of a task as a snapshot for history or a write. Missing fields come out as null, so applying
+// the snapshot clears them again.
+export const pickFields = <K extends keyof Task>(task: Partial<Task>, keys: K[]) =>
+    Object.fromEntries(keys.map(key => [key, task[key] ?? null])) as Pick<Task, K>;
@@ -0,0 +1,303 @@
+import {
+    collection,
+    doc,
+    documentId,
+    getDoc,
+    getDocs,
+    onSnapshot,
+    query,
+    where,
+    writeBatch
+} from "firebase/firestore";
+import {
+    onAuthStateChanged,
+    signInWithEmailAndPassword,
+    createUserWithEmailAndPassword,
+    signOut
+} from "firebase/auth";
+import { db, auth } from './firebase';
+import { type Task } from './db';
+import type { RecordStore, Session, SessionState, StorageBackend, SyncState, SyncStatus, TaskCriteria, TaskRepository, TaskWrite } from './repository';
+
+const getUserCollection = (name: 'tasks' | 'history' | 'views') => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) throw new Error("User not authenticated");
+    return collection(db, "users", uid, name);
+};
+
+const getTasksCollection = () => getUserCollection("tasks");
+
+// Firestore caps a write batch at 500 writes and an "in" filter at 30 values
+const MAX_BATCH_WRITES = 500;
+const MAX_IN_VALUES = 30;
+
+const chunk = <T,>(items: T[], size: number) => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+};
+
+const writeId = (w: TaskWrite) => w.type === 'set' ? w.task.id : w.id;
+
+// Firestore applies a write to its local cache at once and resolves the commit when the server confirms it,
+// which can be much later when offline. Commits are counted here until then.
+class FirestoreSyncStatus implements SyncStatus {
+    private state: SyncState = { online: navigator.onLine, pendingWrites: 0, error: null };
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        window.addEventListener('online', () => this.setState({ online: true }));
+        window.addEventListener('offline', () => this.setState({ online: false }));
+    }
+
+    getState() {
+        return this.state;
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    // Counts `writes` as pending until `confirmed` settles
+    track(confirmed: Promise<void>, writes: number) {
+        this.setState({ pendingWrites: this.state.pendingWrites + writes });
+        confirmed.then(
+            () => this.setState({ pendingWrites: this.state.pendingWrites - writes, error: null }),
+            err => {
+                this.setState({ pendingWrites: this.state.pendingWrites - writes, error: err instanceof Error ? err.message : String(err) });
+            }
+        );
+    }
+
+    private setState(changes: Partial<SyncState>) {
+        this.state = { ...this.state, ...changes };
+        this.listeners.forEach(l => l());
+    }
+}
+
+class FirestoreTaskRepository implements TaskRepository {
+    private sync: FirestoreSyncStatus;
+
+    constructor(sync: FirestoreSyncStatus) {
+        this.sync = sync;
+    }
+
+    async getTask(id: string) {
+        const snap = await getDoc(doc(getTasksCollection(), id));
+        return snap.exists() ? snap.data() as Task : null;
+    }
+
+    async getTasks(ids: string[]) {
+        return this.findWhereIn(documentId(), Array.from(new Set(ids)));
+    }
+
+    async findTasks(criteria: TaskCriteria = {}) {
+        const constraints = Object.entries(criteria).map(([field, value]) => where(field, "==", value));
+        const querySnapshot = await getDocs(query(getTasksCollection(), ...constraints));
+        return querySnapshot.docs.map(d => d.data() as Task);
+    }
+
+    async findChildren(parentIds: string[]) {
+        return this.findWhereIn("parentId", Array.from(new Set(parentIds)));
+    }
+
+    // Returns once the writes are in the local cache; the server confirms them in the background
+    async commit(writes: TaskWrite[]) {
+        if (writes.length === 0) return;
+        if (writes.length <= MAX_BATCH_WRITES) {
+            // A rejected batch is taken back out of the cache by Firestore itself
+            this.commitBatch(writes);
+            return;
+        }
+
+        // Too big for one batch: commit the chunks one after another, each once the server has accepted the one
+        // before. If it rejects one, put back everything the accepted chunks changed and fail, so the commit stays
+        // all-or-nothing and the caller records no history for it. Unlike a small commit this waits for the server.
+        const before = new Map((await this.getTasks(writes.map(writeId))).map(t => [t.id, t]));
+        const accepted: TaskWrite[] = [];
+        for (const part of chunk(writes, MAX_BATCH_WRITES)) {
+            try {
+                await this.commitBatch(part);
+            } catch (err) {
+                const rollback: TaskWrite[] = Array.from(new Set(accepted.map(writeId)), id => {
+                    const task = before.get(id);
+                    return task ? { type: 'set', task } : { type: 'delete', id };
+                });
+                for (const undo of chunk(rollback, MAX_BATCH_WRITES)) await this.commitBatch(undo);
+                throw err;
+            }
+            accepted.push(...part);
+        }
+    }
+
+    // Writes one batch to the local cache and returns the server's confirmation
+    private commitBatch(writes: TaskWrite[]) {
+        const tasksRef = getTasksCollection();
+        const fbatch = writeBatch(db);
+        for (const w of writes) {
+            if (w.type === 'set') fbatch.set(doc(tasksRef, w.task.id), w.task);
+            else if (w.type === 'update') fbatch.update(doc(tasksRef, w.id), w.changes);
+            else fbatch.delete(doc(tasksRef, w.id));
+        }
+        const confirmed = fbatch.commit();
+        this.sync.track(confirmed, writes.length);
+        return confirmed;
+    }
+
+    private async findWhereIn(field: string | ReturnType<typeof documentId>, values: string[]) {
+        const tasksRef = getTasksCollection();
+        const snapshots = await Promise.all(
+            chunk(values, MAX_IN_VALUES).map(part => getDocs(query(tasksRef, where(field, "in", part))))
+        );
+        return snapshots.flatMap(snap => snap.docs.map(d => d.data() as Task));
+    }
+
+    subscribe(listener: (tasks: Task[]) => void) {
+        return onSnapshot(getTasksCollection(), snap => {
+            listener(snap.docs.map(d => d.data() as Task));
+        });
+    }
+}
+
+// Firestore caps a document at 1 MiB. A record bigger than a part, like the undo entry of an import that replaced
+// every task, is stored as a head document with its part count plus part documents holding slices of its JSON.
+// A part is counted in UTF-16 units, each at most 3 bytes in UTF-8.
+const MAX_PART_LENGTH = 250000;
+
+type RecordPart = { partOf: string; index: number; json: string };
+
+const partId = (id: string, index: number) => `${id}~${index}`;
+
+const splitJson = (json: string) => {
+    const parts: string[] = [];
+    for (let start = 0; start < json.length;) {
+        let end = Math.min(start + MAX_PART_LENGTH, json.length);
+        // Keep surrogate pairs whole; a lone half isn't valid UTF-8
+        if (end < json.length && /[\uD800-\uDBFF]/.test(json[end - 1])) end--;
+        parts.push(json.slice(start, end));
+        start = end;
+    }
+    return parts;
+};
+
+// Each record is a document in users/{uid}/{name}, e.g. one per history entry
+class FirestoreRecordStore<T extends { id: string }> implements RecordStore<T> {
+    private name: 'history' | 'views';
+
+    constructor(name: 'history' | 'views') {
+        this.name = name;
+    }
+
+    async load() {
+        const querySnapshot = await getDocs(getUserCollection(this.name));
+        const docs = querySnapshot.docs.map(d => d.data());
+        const parts = new Map<string, string[]>();
+        docs.filter(d => typeof d.partOf === 'string').forEach(d => {
+            const part = d as RecordPart;
+            const list = parts.get(part.partOf) ?? [];
+            list[part.index] = part.json;
+            parts.set(part.partOf, list);
+        });
+
+        const records: T[] = [];
+        for (const d of docs) {
+            if (typeof d.partOf === 'string') continue;
+            if (typeof d.partCount !== 'number') {
+                records.push(d as T);
+                continue;
+            }
+            // A record whose parts aren't all there, e.g. from an interrupted save, is left out
+            const json = (parts.get(d.id) ?? []).slice(0, d.partCount);
+            if (json.length === d.partCount && json.every(p => typeof p === 'string')) records.push(JSON.parse(json.join('')));
+        }
+        return records;
+    }
+
+    async put(records: T[]) {
+        if (records.length === 0) return;
+        const ref = getUserCollection(this.name);
+        const fbatch = writeBatch(db);
+        for (const r of records) {
+            // Firestore rejects undefined fields, so drop them the same way JSON does
+            const json = JSON.stringify(r);
+            if (json.length <= MAX_PART_LENGTH) {
+                fbatch.set(doc(ref, r.id), JSON.parse(json));
+                continue;
+            }
+            // Parts go first, one per batch to stay under the request size limit, so the head never
+            // points at parts that aren't saved yet
+            const parts = splitJson(json);
+            for (const [index, part] of parts.entries()) {
+                const partBatch = writeBatch(db);
+                partBatch.set(doc(ref, partId(r.id, index)), { partOf: r.id, index, json: part } satisfies RecordPart);
+                await partBatch.commit();
+            }
+            fbatch.set(doc(ref, r.id), { id: r.id, partCount: parts.length });
+        }
+        await fbatch.commit();
+    }
+
+    async remove(ids: string[]) {
+        if (ids.length === 0) return;
+        const ref = getUserCollection(this.name);
+        const partSnapshots = await Promise.all(
+            chunk(ids, MAX_IN_VALUES).map(part => getDocs(query(ref, where('partOf', 'in', part))))
+        );
+        const docIds = [...ids, ...partSnapshots.flatMap(snap => snap.docs.map(d => d.id))];
+        for (const part of chunk(docIds, MAX_BATCH_WRITES)) {
+            const fbatch = writeBatch(db);
+            part.forEach(id => fbatch.delete(doc(ref, id)));
+            await fbatch.commit();
+        }
+    }
+}
+
+class FirebaseSession implements Session {
+    readonly requiresSignIn = true;
+    private state: SessionState = { user: null, loading: true };
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        onAuthStateChanged(auth, user => {
+            this.state = { user: user ? { uid: user.uid, email: user.email } : null, loading: false };
+            this.listeners.forEach(l => l());
+        });
+    }
+
+    getState() {
+        return this.state;
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    async signIn(email: string, password: string) {
+        await signInWithEmailAndPassword(auth, email, password);
+    }
+
+    async signUp(email: string, password: string) {
+        await createUserWithEmailAndPassword(auth, email, password);
+    }
+
+    async signOut() {
+        await signOut(auth);
+    }
+}
+
+export const createFirestoreBackend = (): StorageBackend => {
+    const sync = new FirestoreSyncStatus();
+    return {
+        repository: new FirestoreTaskRepository(sync),
+        history: new FirestoreRecordStore('history'),
+        views: new FirestoreRecordStore('views'),
+        session: new FirebaseSession(),
+        sync
+    };
+};
@@ -0,0 +1,30 @@
+// Fuzzy matching for the command palette: the letters of the query have to appear in order, not side by side
+
+export type FuzzyMatch = {
+    score: number;
+    // Positions in the text of the matched letters, for highlighting
+    indices: number[];
+};
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/.,:'"(#›]/.test(text[index - 1]);
+
+// Null when `text` doesn't contain the query. Higher scores are better: letters at word starts and runs of
+// consecutive letters count extra, so "nt" ranks "New task" above "Print".
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    if (!needle) return { score: 0, indices: [] };
+
+    const haystack = text.toLowerCase();
+    const indices: number[] = [];
+    let score = 0;
+    for (let i = 0; i < haystack.length && indices.length < needle.length; i++) {
+        if (haystack[i] !== needle[indices.length]) continue;
+        const previous = indices[indices.length - 1];
+        score += 1 + (isWordStart(text, i) ? 3 : 0) + (previous === i - 1 ? 2 : 0);
+        indices.push(i);
+    }
+    if (indices.length < needle.length) return null;
+
+    // Among equal matches, earlier and shorter ones first
+    return { score: score - indices[0] * 0.1 - text.length * 0.01, indices };
+};
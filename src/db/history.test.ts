@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { actions } from './actions';
+import { type Task } from './db';
+import { history } from './history';
+import { createLocalBackend } from './localBackend';
+import { getRepository, setBackend } from './repository';
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+    id, parentId: 'root', text: id, completed: false, dueDate: null, tags: [], order: '', createdAt: 0, userId: 'local', ...fields
+});
+
+const text = async (id: string) => (await getRepository().getTask(id))?.text;
+
+beforeEach(() => {
+    setBackend(createLocalBackend(false, [task('a', { order: 'F' }), task('b', { order: 'V' })]));
+    history.clear();
+    history.dismissConflicts();
+});
+
+describe('undo and redo', () => {
+    it('step back and forth through edits', async () => {
+        await actions.updateTask('a', { text: 'one' });
+        await actions.updateTask('b', { text: 'two' });
+
+        await history.undo();
+        expect([await text('a'), await text('b')]).toEqual(['one', 'b']);
+        await history.undo();
+        expect([await text('a'), await text('b')]).toEqual(['a', 'b']);
+        expect(history.canUndo()).toBe(false);
+
+        await history.redo();
+        await history.redo();
+        expect([await text('a'), await text('b')]).toEqual(['one', 'two']);
+        expect(history.canRedo()).toBe(false);
+    });
+
+    it('drops the redo stack on a new edit', async () => {
+        await actions.updateTask('a', { text: 'one' });
+        await history.undo();
+        await actions.updateTask('b', { text: 'two' });
+        expect(history.canRedo()).toBe(false);
+        expect(history.getEntries()).toHaveLength(1);
+    });
+
+    it('clears a field that was missing before the edit', async () => {
+        await actions.updateTask('a', { dueDate: '2026-11-01', priority: 1 });
+        await history.undo();
+        const restored = (await getRepository().getTask('a'))!;
+        expect(restored.dueDate).toBeNull();
+        expect(restored.priority ?? null).toBeNull();
+    });
+
+    it('coalesces typing in one title into a single entry', async () => {
+        await actions.updateTask('a', { text: 'o' });
+        await actions.updateTask('a', { text: 'on' });
+        await actions.updateTask('a', { text: 'one' });
+        expect(history.getEntries()).toHaveLength(1);
+        await history.undo();
+        expect(await text('a')).toBe('a');
+    });
+
+    it('steps back to an earlier entry with revertTo', async () => {
+        await actions.updateTask('a', { text: 'one' });
+        await actions.updateTask('b', { text: 'two' });
+        await actions.updateTask('a', { notes: 'three' });
+        await history.revertTo(history.getEntries()[0].id);
+        expect([await text('a'), await text('b')]).toEqual(['one', 'b']);
+        expect((await getRepository().getTask('a'))!.notes ?? null).toBeNull();
+    });
+});
+
+describe('conflicts', () => {
+    it('skip fields changed since the entry and report them', async () => {
+        await actions.updateTask('a', { text: 'one' });
+        // Changed behind history's back, e.g. on another device
+        await getRepository().commit([{ type: 'update', id: 'a', changes: { text: 'elsewhere' } }]);
+        await history.undo();
+
+        expect(await text('a')).toBe('elsewhere');
+        const [report] = history.getConflictReports();
+        expect(report.direction).toBe('undo');
+        expect(report.conflicts[0]).toMatchObject({ taskId: 'a', reason: 'changed', fields: ['text'] });
+    });
+
+    it('ignore rank keys rewritten by a rebalance', async () => {
+        const added = await actions.addTask('new', 'root', [], null, 'a');
+        await getRepository().commit([{ type: 'update', id: added.id, changes: { order: 'Z', sectionOrder: 'Z' } }]);
+        await history.undo();
+
+        expect(await getRepository().getTask(added.id)).toBeNull();
+        expect(history.getConflictReports()).toHaveLength(0);
+    });
+
+    it('keep a task that was edited since it was added', async () => {
+        const added = await actions.addTask('new');
+        await getRepository().commit([{ type: 'update', id: added.id, changes: { text: 'edited' } }]);
+        await history.undo();
+
+        expect(await text(added.id)).toBe('edited');
+        expect(history.getConflictReports()[0].conflicts[0]).toMatchObject({ taskId: added.id, reason: 'changed' });
+    });
+});
@@ -1,5 +1,5 @@
-import { doc, setDoc, deleteDoc, updateDoc } from 'firebase/firestore';
-import { db, auth, type Task } from './db';
+import { pickFields, type Task } from './db';
+import { getHistoryStore, getRepository, type TaskWrite } from './repository';
 
 // History operations definition
 // ADD: To undo, we delete. To redo, we add back.
@@ -18,100 +18,345 @@ export interface Operation {
     batchOperations?: Operation[];      // Collection of sub-operations
 }
 
+// One user-visible step in the history timeline
+export interface HistoryEntry {
+    id: string;
+    description: string;   // Human-readable, e.g. "Moved 'Write spec' under 'Q3'"
+    createdAt: number;
+    undone: boolean;       // Undone entries form the redo stack
+    op: Operation;
+}
+
+type Direction = 'undo' | 'redo';
+
+// A task that undo/redo left (partly) untouched because it no longer looked the way the entry expected
+export interface HistoryConflict {
+    taskId: string;
+    taskText: string;
+    reason: 'changed' | 'deleted' | 'exists';
+    fields: string[]; // The fields that were skipped
+}
+
+export interface ConflictReport {
+    description: string;
+    direction: Direction;
+    conflicts: HistoryConflict[];
+}
+
+// Latest known version of each task touched by an operation; null when it does not exist
+type TaskState = Map<string, Task | null>;
+
+// Firestore drops undefined fields and snapshots record a missing field as null, so missing, undefined and null
+// are treated alike
+const sameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (a === undefined || b === undefined || a === null || b === null) return (a ?? null) === (b ?? null);
+    if (typeof a !== 'object' || typeof b !== 'object') return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const x = a as Record<string, unknown>;
+    const y = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(x), ...Object.keys(y)]);
+    return Array.from(keys).every(k => sameValue(x[k], y[k]));
+};
+
+const collectTaskIds = (op: Operation, ids: Set<string>) => {
+    if (op.taskId) ids.add(op.taskId);
+    op.batchOperations?.forEach(child => collectTaskIds(child, ids));
+};
+
+// Rank keys change without anyone touching the task, e.g. when its siblings are rebalanced, so they don't
+// make a task count as changed since the entry
+const RANK_FIELDS = ['order', 'sectionOrder', 'focusOrder', 'boardOrder'];
+
+// The user-visible fields that differ between two versions of a task
+const differingFields = (a: Task, b: Task) =>
+    Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+        .filter(k => !RANK_FIELDS.includes(k) && !sameValue(a[k as keyof Task], b[k as keyof Task]));
+
+// Moves a whole task from `expected` to `target` (null meaning it does not exist)
+const planTaskTransition = (
+    taskId: string, expected: Task | null, target: Task | null,
+    state: TaskState, writes: TaskWrite[], conflicts: HistoryConflict[]
+) => {
+    const current = state.get(taskId) ?? null;
+    if (sameValue(current, target)) return;
+
+    if (current === null) {
+        // Restoring a task that was deleted elsewhere is fine; changing one that is gone is not
+        if (expected === null && target) {
+            writes.push({ type: 'set', task: target });
+            state.set(taskId, target);
+        } else {
+            conflicts.push({ taskId, taskText: (expected ?? target)?.text || '', reason: 'deleted', fields: [] });
+        }
+        return;
+    }
+
+    if (expected === null) {
+        conflicts.push({ taskId, taskText: current.text, reason: 'exists', fields: [] });
+    } else if (differingFields(current, expected).length > 0) {
+        conflicts.push({ taskId, taskText: current.text, reason: 'changed', fields: differingFields(current, expected) });
+    } else if (target) {
+        writes.push({ type: 'set', task: target });
+        state.set(taskId, target);
+    } else {
+        writes.push({ type: 'delete', id: taskId });
+        state.set(taskId, null);
+    }
+};
+
+// Sets each field from its `expected` value to its `target` value, skipping fields changed since
+const planFieldUpdate = (
+    taskId: string, expected: Partial<Task>, target: Partial<Task>,
+    state: TaskState, writes: TaskWrite[], conflicts: HistoryConflict[]
+) => {
+    const current = state.get(taskId) ?? null;
+    const keys = Object.keys(target) as Array<keyof Task>;
+    if (current === null) {
+        conflicts.push({ taskId, taskText: '', reason: 'deleted', fields: keys });
+        return;
+    }
+
+    const changed: Array<keyof Task> = [];
+    const skipped: string[] = [];
+    for (const key of keys) {
+        if (sameValue(current[key], target[key])) continue;
+        if (sameValue(current[key], expected[key])) changed.push(key);
+        else skipped.push(key);
+    }
+
+    if (skipped.length > 0) {
+        conflicts.push({ taskId, taskText: current.text, reason: 'changed', fields: skipped });
+    }
+    if (changed.length > 0) {
+        const changes: Partial<Task> = pickFields(target, changed);
+        writes.push({ type: 'update', id: taskId, changes });
+        state.set(taskId, { ...current, ...changes });
+    }
+};
+
+const planOperation = (op: Operation, direction: Direction, state: TaskState, writes: TaskWrite[], conflicts: HistoryConflict[]) => {
+    const undo = direction === 'undo';
+    switch (op.type) {
+        case 'ADD':
+            // To undo, we delete. To redo, we add back.
+            if (op.taskId && op.taskSnapshot) {
+                const [expected, target] = undo ? [op.taskSnapshot, null] : [null, op.taskSnapshot];
+                planTaskTransition(op.taskId, expected, target, state, writes, conflicts);
+            }
+            break;
+        case 'DELETE':
+            // To undo, we add back. To redo, we delete again.
+            if (op.taskId && op.taskSnapshot) {
+                const [expected, target] = undo ? [null, op.taskSnapshot] : [op.taskSnapshot, null];
+                planTaskTransition(op.taskId, expected, target, state, writes, conflicts);
+            }
+            break;
+        case 'UPDATE':
+            if (op.taskId && op.prevUpdateSnapshot && op.newUpdateSnapshot) {
+                const [expected, target] = undo
+                    ? [op.newUpdateSnapshot, op.prevUpdateSnapshot]
+                    : [op.prevUpdateSnapshot, op.newUpdateSnapshot];
+                planFieldUpdate(op.taskId, expected, target, state, writes, conflicts);
+            }
+            break;
+        case 'BATCH':
+            if (op.batchOperations) {
+                // Undo must be played back in REVERSE order for safety, redo in standard order
+                const children = undo ? [...op.batchOperations].reverse() : op.batchOperations;
+                children.forEach(child => planOperation(child, direction, state, writes, conflicts));
+            }
+            break;
+    }
+};
+
 const MAX_HISTORY = 50;
+// Consecutive text/notes edits of the same task within this window become one entry
+const COALESCE_MS = 2000;
+const COALESCE_FIELDS = ['text', 'notes'];
 
 class HistoryManager {
-    private undoStack: Operation[] = [];
-    private redoStack: Operation[] = [];
+    // Oldest first. Applied entries always come before undone ones, so the undo stack is the
+    // applied prefix and the redo stack is the undone suffix, read backwards.
+    private entries: HistoryEntry[] = [];
+    // Undo/redo run one at a time so rapid key presses can't interleave
+    private queue: Promise<void> = Promise.resolve();
+    private conflictReports: ConflictReport[] = [];
+    // Set while the last save of the timeline failed, so it would be lost on reload
+    private saveFailed = false;
     // Can optionally subscribe UI to changes if we want Undo/Redo buttons to enable/disable
     public listeners: (() => void)[] = [];
 
-    private getDocRef(taskId: string) {
-        const uid = auth.currentUser?.uid;
-        if (!uid) throw new Error("No authenticated user");
-        return doc(db, 'users', uid, 'tasks', taskId);
+    getEntries() {
+        return this.entries;
     }
 
-    push(op: Operation) {
-        this.undoStack.push(op);
-        if (this.undoStack.length > MAX_HISTORY) {
-            this.undoStack.shift();
-        }
-        // Changing history clears all redos
-        this.redoStack = [];
+    // Undo/redo steps that could not be fully applied, oldest first, until dismissed
+    getConflictReports() {
+        return this.conflictReports;
+    }
+
+    hasSaveFailed() {
+        return this.saveFailed;
+    }
+
+    dismissConflicts() {
+        this.conflictReports = [];
         this.notify();
     }
 
-    async undo() {
-        if (this.undoStack.length === 0) return;
-        const op = this.undoStack.pop()!;
-        await this.applyInverse(op);
-        this.redoStack.push(op);
+    canUndo() {
+        return this.entries.some(e => !e.undone);
+    }
+
+    canRedo() {
+        return this.entries.some(e => e.undone);
+    }
+
+    // Replaces the in-memory timeline with the signed-in user's saved history
+    async load() {
+        const stored = await getHistoryStore().load();
+        const pending = this.entries.filter(e => !stored.some(s => s.id === e.id));
+        this.entries = [...stored.sort((a, b) => a.createdAt - b.createdAt), ...pending];
         this.notify();
     }
 
-    async redo() {
-        if (this.redoStack.length === 0) return;
-        const op = this.redoStack.pop()!;
-        await this.applyForward(op);
-        this.undoStack.push(op);
+    clear() {
+        this.entries = [];
         this.notify();
     }
 
-    private async applyInverse(op: Operation) {
-        switch (op.type) {
-            case 'ADD':
-                if (op.taskId) {
-                    await deleteDoc(this.getDocRef(op.taskId));
-                }
-                break;
-            case 'DELETE':
-                if (op.taskId && op.taskSnapshot) {
-                    await setDoc(this.getDocRef(op.taskId), op.taskSnapshot);
-                }
-                break;
-            case 'UPDATE':
-                if (op.taskId && op.prevUpdateSnapshot) {
-                    await updateDoc(this.getDocRef(op.taskId), op.prevUpdateSnapshot);
-                }
-                break;
-            case 'BATCH':
-                if (op.batchOperations) {
-                    // Undo must be played back in REVERSE order for safety
-                    for (let i = op.batchOperations.length - 1; i >= 0; i--) {
-                        await this.applyInverse(op.batchOperations[i]);
-                    }
-                }
-                break;
+    push(op: Operation, description: string) {
+        // Changing history clears all redos
+        const dropped = this.entries.filter(e => e.undone);
+        const applied = this.entries.filter(e => !e.undone);
+        const top = applied[applied.length - 1];
+
+        let entry: HistoryEntry;
+        if (top && dropped.length === 0 && this.canCoalesce(top, op)) {
+            entry = {
+                ...top,
+                description,
+                createdAt: Date.now(),
+                op: { ...op, prevUpdateSnapshot: top.op.prevUpdateSnapshot }
+            };
+            applied[applied.length - 1] = entry;
+        } else {
+            entry = { id: crypto.randomUUID(), description, createdAt: Date.now(), undone: false, op };
+            applied.push(entry);
         }
-    }
 
-    private async applyForward(op: Operation) {
-        switch (op.type) {
-            case 'ADD':
-                if (op.taskId && op.taskSnapshot) {
-                    await setDoc(this.getDocRef(op.taskId), op.taskSnapshot);
-                }
-                break;
-            case 'DELETE':
-                if (op.taskId) {
-                    await deleteDoc(this.getDocRef(op.taskId));
-                }
-                break;
-            case 'UPDATE':
-                if (op.taskId && op.newUpdateSnapshot) {
-                    await updateDoc(this.getDocRef(op.taskId), op.newUpdateSnapshot);
-                }
-                break;
-            case 'BATCH':
-                if (op.batchOperations) {
-                    // Redo is played back in standard order
-                    for (let i = 0; i < op.batchOperations.length; i++) {
-                        await this.applyForward(op.batchOperations[i]);
-                    }
-                }
-                break;
+        while (applied.length > MAX_HISTORY) {
+            dropped.push(applied.shift()!);
         }
+
+        this.entries = applied;
+        this.notify();
+        this.save([entry], dropped.map(e => e.id));
+    }
+
+    undo() {
+        return this.enqueue(() => this.undoOne());
+    }
+
+    redo() {
+        return this.enqueue(() => this.redoOne());
+    }
+
+    // Undoes or redoes until `entryId` is the most recent applied entry
+    revertTo(entryId: string) {
+        return this.enqueue(async () => {
+            // Looked up each step since edits made meanwhile can reshape the timeline
+            const position = () => this.entries.findIndex(e => e.id === entryId);
+            while (position() !== -1 && this.entries[position()].undone) {
+                await this.redoOne();
+            }
+            while (position() !== -1 && this.entries[position() + 1] && !this.entries[position() + 1].undone) {
+                await this.undoOne();
+            }
+        });
+    }
+
+    private canCoalesce(top: HistoryEntry, op: Operation) {
+        const prevKeys = Object.keys(top.op.newUpdateSnapshot || {});
+        const newKeys = Object.keys(op.newUpdateSnapshot || {});
+        return top.op.type === 'UPDATE' && op.type === 'UPDATE'
+            && top.op.taskId === op.taskId
+            && Date.now() - top.createdAt < COALESCE_MS
+            && newKeys.length === 1 && prevKeys.length === 1
+            && newKeys[0] === prevKeys[0] && COALESCE_FIELDS.includes(newKeys[0]);
+    }
+
+    private enqueue(task: () => Promise<void>) {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    private async undoOne() {
+        const firstUndone = this.entries.findIndex(e => e.undone);
+        const index = (firstUndone === -1 ? this.entries.length : firstUndone) - 1;
+        if (index < 0) return;
+        const entry = this.entries[index];
+        const conflicts = await this.apply(entry.op, 'undo');
+        this.report(entry, 'undo', conflicts);
+        this.setUndone(entry.id, true);
+    }
+
+    private async redoOne() {
+        const index = this.entries.findIndex(e => e.undone);
+        if (index === -1) return;
+        const entry = this.entries[index];
+        const conflicts = await this.apply(entry.op, 'redo');
+        this.report(entry, 'redo', conflicts);
+        this.setUndone(entry.id, false);
+    }
+
+    private report(entry: HistoryEntry, direction: Direction, conflicts: HistoryConflict[]) {
+        if (conflicts.length === 0) return;
+        this.conflictReports = [...this.conflictReports, { description: entry.description, direction, conflicts }];
+    }
+
+    private setUndone(id: string, undone: boolean) {
+        const index = this.entries.findIndex(e => e.id === id);
+        // A new edit made while this was in flight may already have dropped the entry
+        if (index === -1) return;
+        const entry = { ...this.entries[index], undone };
+        this.entries = this.entries.map((e, i) => i === index ? entry : e);
+        this.notify();
+        this.save([entry], []);
+    }
+
+    private save(put: HistoryEntry[], removeIds: string[]) {
+        const store = getHistoryStore();
+        Promise.all([store.put(put), store.remove(removeIds)]).then(
+            () => this.setSaveFailed(false),
+            () => this.setSaveFailed(true)
+        );
+    }
+
+    private setSaveFailed(failed: boolean) {
+        if (this.saveFailed === failed) return;
+        this.saveFailed = failed;
+        this.notify();
+    }
+
+    // Reads the current state of every task the operation touches, then plans the writes that take
+    // each task from where the entry left it to where it should go. Anything that was changed since
+    // (on another device, or in another tab) is left alone and reported instead of being overwritten.
+    private async apply(op: Operation, direction: Direction) {
+        const ids = new Set<string>();
+        collectTaskIds(op, ids);
+        const repo = getRepository();
+        const current = new Map((await repo.getTasks(Array.from(ids))).map(t => [t.id, t]));
+        const state: TaskState = new Map(Array.from(ids, id => [id, current.get(id) ?? null]));
+
+        const writes: TaskWrite[] = [];
+        const conflicts: HistoryConflict[] = [];
+        planOperation(op, direction, state, writes, conflicts);
+
+        await repo.commit(writes);
+        return conflicts;
     }
 
     private notify() {
@@ -1,26 +1,84 @@
-import { useCollectionData } from 'react-firebase-hooks/firestore';
-import { collection, query } from 'firebase/firestore';
-import { useAuthState } from 'react-firebase-hooks/auth';
-import { db, auth, type Task } from './db';
-import { startOfDay, endOfDay, isBefore, isAfter, isWithinInterval } from 'date-fns';
-
-export type SectionFilter = 'all' | 'today' | 'upcoming' | 'past' | 'no-date' | 'focus' | { type: 'dateRange', start: string, end: string } | { type: 'month', year: number, month: number } | { type: 'year', year: number };
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { type Priority, type Task } from './db';
+import { getRepository, getSession, getSyncStatus, type SessionUser } from './repository';
+import { compareRanks } from './rank';
+import { history } from './history';
+import { isTrashed, isTrashRoot } from './trash';
+import { createSearchFilter } from './search';
+import { smartViews } from './views';
+import { keymap } from './keymap';
+import { getSubtreeProgress } from './completion';
+import { getDueBucket, getLocalDueDate } from './dates';
+import { getPriority } from './priority';
+
+export type SectionFilter = 'all' | 'today' | 'upcoming' | 'past' | 'no-date' | 'focus' | 'trash' | { type: 'dateRange', start: string, end: string } | { type: 'month', year: number, month: number } | { type: 'year', year: number };
 
 export type StatusFilter = 'all' | 'completed' | 'incomplete';
 
-export function useTasks(filter: SectionFilter, statusFilter: StatusFilter = 'all') {
-    const [user] = useAuthState(auth);
-    const tasksRef = user ? collection(db, 'users', user.uid, 'tasks') : null;
-    const q = tasksRef ? query(tasksRef) : null;
+export type PriorityFilter = 'all' | Priority;
+
+export function useSession(): [SessionUser | null, boolean] {
+    const session = getSession();
+    const state = useSyncExternalStore(
+        listener => session.subscribe(listener),
+        () => session.getState()
+    );
+    return [state.user, state.loading];
+}
+
+export function useHistoryEntries() {
+    return useSyncExternalStore(
+        listener => history.subscribe(listener),
+        () => history.getEntries()
+    );
+}
+
+export function useHistoryConflicts() {
+    return useSyncExternalStore(
+        listener => history.subscribe(listener),
+        () => history.getConflictReports()
+    );
+}
+
+// Whether the undo history failed to save, so it only lasts until the page is reloaded
+export function useHistorySaveFailed() {
+    return useSyncExternalStore(
+        listener => history.subscribe(listener),
+        () => history.hasSaveFailed()
+    );
+}
+
+// Live list of every task for the signed-in user, undefined until the first snapshot arrives
+function useAllTasks() {
+    const [user] = useSession();
+    const uid = user?.uid ?? null;
+    const [snapshot, setSnapshot] = useState<{ uid: string; tasks: Task[] } | null>(null);
+
+    useEffect(() => {
+        if (!uid) return;
+        return getRepository().subscribe(tasks => setSnapshot({ uid, tasks }));
+    }, [uid]);
 
-    const [tasksData, loading] = useCollectionData(q);
+    // Ignore a snapshot left over from a previous user
+    return snapshot && snapshot.uid === uid ? snapshot.tasks : undefined;
+}
+
+export function useTasks(filter: SectionFilter, statusFilter: StatusFilter = 'all', priorityFilter: PriorityFilter = 'all') {
+    const tasksData = useAllTasks();
+    return tasksData && filterTasks(tasksData, filter, statusFilter, priorityFilter);
+}
 
-    if (loading || !tasksData) return undefined;
+// The tasks a Sidebar section shows, in display order
+export function filterTasks(tasksData: Task[], filter: SectionFilter, statusFilter: StatusFilter = 'all', priorityFilter: PriorityFilter = 'all') {
+    // The Trash view lists each deleted subtree once, most recently deleted first
+    if (filter === 'trash') {
+        return tasksData.filter(isTrashRoot).sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+    }
 
-    let tasks = tasksData as Task[];
+    let tasks = tasksData.filter(t => !isTrashed(t));
 
     // Sort heavily by order so they appear in sequence
-    tasks.sort((a, b) => a.order - b.order);
+    tasks.sort((a, b) => compareRanks(a.order, b.order));
 
     // Apply status filter first
     if (statusFilter === 'completed') {
@@ -29,20 +87,17 @@ export function useTasks(filter: SectionFilter, statusFilter: StatusFilter = 'al
         tasks = tasks.filter(t => !t.completed);
     }
 
-    const now = new Date();
-    const todayStart = startOfDay(now);
-    const todayEnd = endOfDay(now);
+    if (priorityFilter !== 'all') {
+        tasks = tasks.filter(t => getPriority(t) === priorityFilter);
+    }
 
-    const parseLocal = (dStr: string) => {
-        const parts = dStr.split('-');
-        return new Date(parseInt(parts[0], 10), parseInt(parts[1], 10) - 1, parseInt(parts[2], 10));
-    };
+    const now = new Date();
 
     if (filter === 'focus') {
         return tasks
             .filter(t => t.isFocused)
             // Override default sorting to use specific focusOrder
-            .sort((a, b) => (a.focusOrder || 0) - (b.focusOrder || 0));
+            .sort((a, b) => compareRanks(a.focusOrder, b.focusOrder));
     }
 
     if (filter === 'all') {
@@ -54,39 +109,33 @@ export function useTasks(filter: SectionFilter, statusFilter: StatusFilter = 'al
     }
 
     if (filter === 'today') {
-        return tasks.filter(t => t.dueDate && isWithinInterval(parseLocal(t.dueDate), { start: todayStart, end: todayEnd }));
+        return tasks.filter(t => getDueBucket(t, now) === 'today');
     }
 
     if (filter === 'upcoming') {
-        return tasks.filter(t => t.dueDate && isAfter(parseLocal(t.dueDate), todayEnd));
+        return tasks.filter(t => getDueBucket(t, now) === 'upcoming');
     }
 
     if (filter === 'past') {
         // Note: If using 'past', usually we show completed AND past due.
         // But since statusFilter is applied above, we just respect the time rule.
-        return tasks.filter(t => t.completed || (t.dueDate && isBefore(parseLocal(t.dueDate), todayStart)));
+        return tasks.filter(t => t.completed || getDueBucket(t, now) === 'past');
     }
 
     if (typeof filter === 'object') {
         if (filter.type === 'dateRange') {
             const { start, end } = filter;
-            const startDate = parseLocal(start);
-            const endDate = parseLocal(end);
-            return tasks.filter(t => t.dueDate && isWithinInterval(parseLocal(t.dueDate), { start: startDate, end: endDate }));
-        }
-        if (filter.type === 'month') {
             return tasks.filter(t => {
-                if (!t.dueDate) return false;
-                const d = parseLocal(t.dueDate);
-                return d.getFullYear() === filter.year && d.getMonth() + 1 === filter.month;
+                const due = getLocalDueDate(t);
+                return !!due && due >= start && due <= end;
             });
         }
+        if (filter.type === 'month') {
+            const prefix = `${filter.year}-${String(filter.month).padStart(2, '0')}-`;
+            return tasks.filter(t => getLocalDueDate(t)?.startsWith(prefix));
+        }
         if (filter.type === 'year') {
-            return tasks.filter(t => {
-                if (!t.dueDate) return false;
-                const d = parseLocal(t.dueDate);
-                return d.getFullYear() === filter.year;
-            });
+            return tasks.filter(t => getLocalDueDate(t)?.startsWith(`${filter.year}-`));
         }
     }
 
@@ -94,16 +143,87 @@ export function useTasks(filter: SectionFilter, statusFilter: StatusFilter = 'al
 }
 
 export function useTags() {
-    const [user] = useAuthState(auth);
-    const tasksRef = user ? collection(db, 'users', user.uid, 'tasks') : null;
-    const q = tasksRef ? query(tasksRef) : null;
-
     // We only need read access, ignore loading block here
-    const [tasksData] = useCollectionData(q);
+    const tasksData = useAllTasks();
 
     if (!tasksData) return [];
 
     const tags = new Set<string>();
-    (tasksData as Task[]).forEach(t => (t.tags || []).forEach(tag => tags.add(tag)));
+    tasksData.forEach(t => {
+        if (!isTrashed(t)) (t.tags || []).forEach(tag => tags.add(tag));
+    });
     return Array.from(tags).sort();
 }
+
+export type TrashEntry = { task: Task; subtaskCount: number };
+
+// Deleted subtrees, most recently deleted first
+export function useTrash(): TrashEntry[] | undefined {
+    const tasksData = useAllTasks();
+    if (!tasksData) return undefined;
+
+    const counts = new Map<string, number>();
+    tasksData.forEach(t => {
+        if (isTrashed(t) && !isTrashRoot(t) && t.deletedWith) {
+            counts.set(t.deletedWith, (counts.get(t.deletedWith) || 0) + 1);
+        }
+    });
+    return tasksData
+        .filter(isTrashRoot)
+        .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+        .map(task => ({ task, subtaskCount: counts.get(task.id) || 0 }));
+}
+
+export function useSmartViews() {
+    return useSyncExternalStore(
+        listener => smartViews.subscribe(listener),
+        () => smartViews.getViews()
+    );
+}
+
+export function useSmartViewsSaveFailed() {
+    return useSyncExternalStore(
+        listener => smartViews.subscribe(listener),
+        () => smartViews.hasSaveFailed()
+    );
+}
+
+export function useKeymap() {
+    return useSyncExternalStore(
+        listener => keymap.subscribe(listener),
+        () => keymap.getKeymap()
+    );
+}
+
+// Completed and total subtasks of every task with some, over the whole tree whatever the view shows
+export function useSubtreeProgress() {
+    const tasksData = useAllTasks();
+    return useMemo(() => getSubtreeProgress(tasksData || []), [tasksData]);
+}
+
+// Live number of tasks each saved view would show, keyed by view id
+export function useSmartViewCounts() {
+    const tasksData = useAllTasks();
+    const views = useSmartViews();
+    const counts = new Map<string, number>();
+    if (!tasksData) return counts;
+
+    const live = tasksData.filter(t => !isTrashed(t));
+    views.forEach(view => {
+        let tasks = filterTasks(tasksData, view.filter, view.statusFilter, view.priorityFilter ?? 'all');
+        if (view.searchQuery.trim()) tasks = tasks.filter(createSearchFilter(view.searchQuery, live));
+        counts.set(view.id, tasks.length);
+    });
+    return counts;
+}
+
+const noSync = () => () => { };
+
+// Connection and pending-write state, or null for backends that don't sync
+export function useSyncStatus() {
+    const sync = getSyncStatus();
+    return useSyncExternalStore(
+        sync ? listener => sync.subscribe(listener) : noSync,
+        () => sync ? sync.getState() : null
+    );
+}
@@ -0,0 +1,310 @@
+import { format } from 'date-fns';
+import { type Priority, type Task } from './db';
+import { type ImportedTask } from './actions';
+import { getDueInstant } from './dates';
+
+// iCalendar (RFC 5545) export of tasks as VTODOs, and import of VTODOs and VEVENTs.
+// Every exported task carries a stable UID (its own, or the one it was imported with),
+// so importing the same file again updates those tasks instead of adding copies.
+
+export class CalendarError extends Error { }
+
+// A to-do or event read from an .ics file
+export interface CalendarItem {
+    uid: string | null;
+    summary: string;
+    description: string;
+    due: string | null;        // yyyy-MM-dd
+    dueTime: string | null;    // HH:mm
+    timeZone: string | null;   // Set for times given in a zone (TZID or UTC); none for floating times
+    duration: number | null;   // Minutes
+    completed: boolean;
+    priority: Priority | null;
+    categories: string[];
+    parentUid: string | null;
+}
+
+export const taskUid = (task: Task) => task.icalUid ?? `${task.id}@todo`;
+
+export const calendarFileName = (title: string) =>
+    `${title.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'tasks'}-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+
+const escapeText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+    text.replace(/\\([\\;,nN])/g, (_, ch: string) => ch === 'n' || ch === 'N' ? '\n' : ch);
+
+// PRIORITY runs 1 (highest) to 9, in bands of high (1–4), medium (5) and low (6–9); 0 means none
+const ICAL_PRIORITIES: Record<Priority, number | null> = { 1: 1, 2: 5, 3: 9, 4: null };
+
+const readPriority = (value: string | undefined): Priority | null => {
+    const level = parseInt(value ?? '', 10);
+    if (!(level >= 1 && level <= 9)) return null;
+    return level <= 4 ? 1 : level === 5 ? 2 : 3;
+};
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line: string) => {
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const ch of line) {
+        const chSize = encoder.encode(ch).length;
+        if (size + chSize > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += ch;
+        size += chSize;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const utcStamp = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One VTODO per task. RELATED-TO links a task to its parent when the parent is exported too.
+export const tasksToICalendar = (tasks: Task[]) => {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const now = utcStamp(Date.now());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//todo//Tasks//EN', 'CALSCALE:GREGORIAN'];
+
+    for (const task of tasks) {
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:${taskUid(task)}`,
+            `DTSTAMP:${now}`,
+            `CREATED:${utcStamp(task.createdAt)}`,
+            `SUMMARY:${escapeText(task.text)}`,
+            `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+        );
+        if (task.dueDate && task.dueTime) {
+            // A duration makes the due time the start: DTSTART to DUE spans it
+            const zone = task.timeZone ? `;TZID=${task.timeZone}` : '';
+            const start = `${task.dueDate.replace(/-/g, '')}T${task.dueTime.replace(':', '')}00`;
+            if (task.duration) {
+                const end = new Date(getDueInstant(task)!.getTime() + task.duration * 60000);
+                // Floating times stay floating; a pinned end is written in UTC, which is the same moment
+                lines.push(`DTSTART${zone}:${start}`, `DUE:${task.timeZone ? utcStamp(end.getTime()) : format(end, "yyyyMMdd'T'HHmmss")}`);
+            } else {
+                lines.push(`DUE${zone}:${start}`);
+            }
+        } else if (task.dueDate) {
+            lines.push(`DUE;VALUE=DATE:${task.dueDate.replace(/-/g, '')}`);
+        }
+        const priority = task.priority ? ICAL_PRIORITIES[task.priority] : null;
+        if (priority) lines.push(`PRIORITY:${priority}`);
+        if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+        if (task.notes?.trim()) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+        const parent = byId.get(task.parentId);
+        if (parent) lines.push(`RELATED-TO;RELTYPE=PARENT:${taskUid(parent)}`);
+        lines.push('END:VTODO');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// The dated tasks among `tasks`, plus the ancestors among them that hold those tasks together
+export const calendarTasks = (tasks: Task[]) => {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const keep = new Set<string>();
+    for (const task of tasks) {
+        if (!task.dueDate) continue;
+        for (let t: Task | undefined = task; t && !keep.has(t.id); t = byId.get(t.parentId)) keep.add(t.id);
+    }
+    return tasks.filter(t => keep.has(t.id));
+};
+
+interface Property {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const parseProperty = (line: string): Property | null => {
+    let i = 0;
+    let inQuotes = false;
+    while (i < line.length && (inQuotes || line[i] !== ':')) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        i++;
+    }
+    if (i >= line.length) return null;
+
+    const [name, ...rawParams] = line.slice(0, i).split(';');
+    const params: Record<string, string> = {};
+    rawParams.forEach(p => {
+        const eq = p.indexOf('=');
+        if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+};
+
+const isKnownTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// DATE (20261101) or DATE-TIME: floating (20261101T090000), UTC (…Z) or in the zone named by TZID.
+// Zones this device doesn't know are read as floating times.
+const parseDateTime = (prop: Property) => {
+    const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+    if (!match) return null;
+    const [, y, m, d, hh, mm, utc] = match;
+    const tzid = prop.params.TZID;
+    return {
+        dueDate: `${y}-${m}-${d}`,
+        dueTime: hh ? `${hh}:${mm}` : null,
+        timeZone: !hh ? null : utc ? 'UTC' : tzid && isKnownTimeZone(tzid) ? tzid : null
+    };
+};
+
+// PT1H30M, P1D, P1W as minutes
+const parseDuration = (value: string) => {
+    const match = value.trim().match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+    if (!match) return null;
+    const [, w, d, h, m] = match.map(part => parseInt(part ?? '0', 10));
+    return ((w * 7 + d) * 24 + h) * 60 + m || null;
+};
+
+const MAX_DURATION = 24 * 60;
+
+// The due date and time of a to-do or event. With a start and an end less than a day apart,
+// the start becomes the due time and the gap the duration; otherwise a VTODO's DUE wins.
+const readDue = (kind: string, get: (name: string) => Property | undefined) => {
+    const start = get('DTSTART') ? parseDateTime(get('DTSTART')!) : null;
+    const endProp = kind === 'VTODO' ? get('DUE') : get('DTEND');
+    const end = endProp ? parseDateTime(endProp) : null;
+    const durationProp = get('DURATION');
+
+    if (start?.dueTime) {
+        const minutes = end?.dueTime
+            ? Math.round((getDueInstant(end)!.getTime() - getDueInstant(start)!.getTime()) / 60000)
+            : durationProp ? parseDuration(durationProp.value) : null;
+        if (minutes !== null && minutes > 0 && minutes < MAX_DURATION) return { ...start, duration: minutes };
+        if (!end || kind === 'VEVENT') return { ...start, duration: null };
+    }
+    const due = kind === 'VTODO' ? end ?? start : start;
+    return due ? { ...due, duration: null } : { dueDate: null, dueTime: null, timeZone: null, duration: null };
+};
+
+export const parseICalendar = (text: string): CalendarItem[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new CalendarError('This file is not an iCalendar file.');
+    }
+
+    const items: CalendarItem[] = [];
+    const seenUids = new Set<string>();
+    let current: { kind: string; props: Property[] } | null = null;
+
+    for (const line of lines) {
+        const prop = parseProperty(line.trim());
+        if (!prop) continue;
+        const value = prop.value.trim().toUpperCase();
+
+        if (prop.name === 'BEGIN' && (value === 'VTODO' || value === 'VEVENT')) {
+            current = { kind: value, props: [] };
+        } else if (prop.name === 'END' && current && value === current.kind) {
+            const get = (name: string) => current!.props.find(p => p.name === name);
+            const uid = get('UID')?.value.trim() || null;
+            // Changed instances of a recurring event repeat its UID; only the main one is imported
+            if (!get('RECURRENCE-ID') && !(uid && seenUids.has(uid))) {
+                if (uid) seenUids.add(uid);
+                const due = readDue(current.kind, get);
+                const related = current.props.find(p => p.name === 'RELATED-TO' && (p.params.RELTYPE ?? 'PARENT').toUpperCase() === 'PARENT');
+                const status = get('STATUS')?.value.toUpperCase();
+                items.push({
+                    uid,
+                    summary: unescapeText(get('SUMMARY')?.value ?? '').trim(),
+                    description: unescapeText(get('DESCRIPTION')?.value ?? ''),
+                    due: due.dueDate,
+                    dueTime: due.dueTime,
+                    timeZone: due.timeZone,
+                    duration: due.duration,
+                    completed: current.kind === 'VTODO' && (status === 'COMPLETED' || !!get('COMPLETED')),
+                    priority: readPriority(get('PRIORITY')?.value),
+                    categories: current.props
+                        .filter(p => p.name === 'CATEGORIES')
+                        .flatMap(p => p.value.split(/(?<!\\),/).map(c => unescapeText(c).trim()))
+                        .filter(Boolean),
+                    parentUid: related?.value.trim() || null
+                });
+            }
+            current = null;
+        } else if (current) {
+            current.props.push(prop);
+        }
+    }
+    return items;
+};
+
+const sameTags = (a: string[], b: string[]) => a.length === b.length && a.every((tag, i) => tag === b[i]);
+
+// Matches calendar items to existing tasks by UID: known ones become field updates, the rest new tasks.
+export const planCalendarImport = (items: CalendarItem[], existing: Task[]) => {
+    const byUid = new Map(existing.map(t => [taskUid(t), t]));
+    const newItems = new Map(items.filter(item => item.uid && !byUid.has(item.uid)).map(item => [item.uid!, item]));
+
+    // A new item's parent must be an existing task or another new item that doesn't lead back to it
+    const newParentOf = (item: CalendarItem) => {
+        const seen = new Set([item.uid]);
+        for (let uid = item.parentUid; uid && newItems.has(uid); uid = newItems.get(uid)!.parentUid) {
+            if (seen.has(uid)) return null;
+            seen.add(uid);
+        }
+        return item.parentUid && newItems.has(item.parentUid) ? item.parentUid : null;
+    };
+
+    const imported: ImportedTask[] = [];
+    const updates: { id: string; changes: Partial<Task> }[] = [];
+
+    items.forEach((item, i) => {
+        const fields = {
+            text: item.summary,
+            notes: item.description,
+            completed: item.completed,
+            dueDate: item.due,
+            dueTime: item.dueTime,
+            duration: item.duration,
+            timeZone: item.timeZone,
+            priority: item.priority,
+            tags: item.categories
+        };
+        const match = item.uid ? byUid.get(item.uid) : undefined;
+
+        if (match) {
+            const changes: Partial<Task> = {};
+            if (match.text !== fields.text) changes.text = fields.text;
+            if ((match.notes || '') !== fields.notes) changes.notes = fields.notes;
+            if (match.completed !== fields.completed) changes.completed = fields.completed;
+            if (match.dueDate !== fields.dueDate) changes.dueDate = fields.dueDate;
+            if ((match.dueTime ?? null) !== fields.dueTime) changes.dueTime = fields.dueTime;
+            if ((match.duration ?? null) !== fields.duration) changes.duration = fields.duration;
+            if ((match.timeZone ?? null) !== fields.timeZone) changes.timeZone = fields.timeZone;
+            if ((match.priority ?? null) !== fields.priority) changes.priority = fields.priority;
+            if (!sameTags(match.tags || [], fields.tags)) changes.tags = fields.tags;
+            if (Object.keys(changes).length > 0) updates.push({ id: match.id, changes });
+            return;
+        }
+
+        const parent = item.parentUid ? byUid.get(item.parentUid) : undefined;
+        imported.push({
+            ...fields,
+            id: item.uid ?? `ical-${i}`,
+            parentId: parent ? parent.id : newParentOf(item) ?? 'root',
+            ...(item.uid ? { icalUid: item.uid } : {})
+        });
+    });
+
+    return { imported, updates };
+};
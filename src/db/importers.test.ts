@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { detectImportFormat, ImportError, normalizeDate, parseCsv, parseImport, parseRecurrenceText } from './importers';
+
+describe('parseCsv', () => {
+    it('handles quotes, escaped quotes and line breaks in cells', () => {
+        expect(parseCsv('a,"b, c","say ""hi"""\r\n1,"two\nlines",3')).toEqual([
+            ['a', 'b, c', 'say "hi"'],
+            ['1', 'two\nlines', '3']
+        ]);
+    });
+});
+
+describe('normalizeDate and parseRecurrenceText', () => {
+    it('normalize the date formats exports use', () => {
+        expect(normalizeDate('2026/11/01')).toBe('2026-11-01');
+        expect(normalizeDate('11/1/2026')).toBe('2026-11-01');
+        expect(normalizeDate('2026-11-01T09:30:00')).toBe('2026-11-01');
+        expect(normalizeDate('tomorrow')).toBeNull();
+    });
+
+    it('read simple repeat phrases', () => {
+        expect(parseRecurrenceText('every 2 weeks')).toMatchObject({ frequency: 'weekly', interval: 2 });
+        expect(parseRecurrenceText('whenever')).toBeNull();
+    });
+});
+
+describe('parseImport', () => {
+    it('nests TaskPaper tasks under projects and reads their tags', () => {
+        const tasks = parseImport('taskpaper', [
+            'Home:',
+            '\t- Fix the sink @due(2026-11-01) @priority(1) @plumbing',
+            '\t\tBuy a new washer first',
+            '\t- Paint the fence @done'
+        ].join('\n'), 'home.taskpaper');
+
+        expect(tasks).toMatchObject([
+            { id: 'import-0', parentId: 'root', text: 'Home' },
+            { parentId: 'import-0', text: 'Fix the sink', dueDate: '2026-11-01', priority: 1, tags: ['plumbing'], notes: 'Buy a new washer first' },
+            { parentId: 'import-0', text: 'Paint the fence', completed: true }
+        ]);
+    });
+
+    it('groups spreadsheet rows by project and section', () => {
+        const tasks = parseImport('csv', [
+            'Title,Project,Section,Due,Priority,Done,Tags',
+            'Book flights,Trip,Before,2026-12-01,high,no,travel; money',
+            'Pack,Trip,,,,yes,',
+            'Loose end,,,,,,'
+        ].join('\n'), 'tasks.csv');
+
+        expect(tasks.map(t => [t.text, t.parentId])).toEqual([
+            ['Trip', 'root'],
+            ['Before', 'import-0'],
+            ['Book flights', 'import-1'],
+            ['Pack', 'import-0'],
+            ['Loose end', 'root']
+        ]);
+        expect(tasks[2]).toMatchObject({ dueDate: '2026-12-01', priority: 1, completed: false, tags: ['travel', 'money'] });
+        expect(tasks[3].completed).toBe(true);
+    });
+
+    it('nests Todoist CSV tasks by indent under the file\'s project', () => {
+        const tasks = parseImport('todoist-csv', [
+            'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,DATE',
+            'section,Errands,,,,',
+            'task,Post office @town,,1,1,',
+            'task,Stamps,,4,2,',
+            'note,Bring the parcel,,,,'
+        ].join('\n'), 'Personal.csv');
+
+        expect(tasks).toMatchObject([
+            { id: 'import-0', parentId: 'root', text: 'Personal' },
+            { id: 'import-1', parentId: 'import-0', text: 'Errands' },
+            { id: 'import-2', parentId: 'import-1', text: 'Post office', tags: ['town'], priority: 1 },
+            { id: 'import-3', parentId: 'import-2', text: 'Stamps', notes: 'Bring the parcel' }
+        ]);
+        expect(tasks[3].priority).toBeUndefined();
+    });
+
+    it('rebuilds the Todoist JSON project tree and maps priorities', () => {
+        const tasks = parseImport('todoist-json', JSON.stringify({
+            projects: [{ id: 'p1', name: 'Work' }],
+            sections: [{ id: 's1', name: 'Next', project_id: 'p1' }],
+            items: [
+                { id: 'i2', content: 'Subtask', parent_id: 'i1', project_id: 'p1' },
+                { id: 'i1', content: 'Task', section_id: 's1', project_id: 'p1', priority: 4, labels: ['urgent'], due: { date: '2026-11-01' } }
+            ]
+        }), 'backup.json');
+
+        expect(tasks).toMatchObject([
+            { id: 'import-0', parentId: 'root', text: 'Work' },
+            { id: 'import-1', parentId: 'import-0', text: 'Next' },
+            { id: 'import-2', parentId: 'import-1', text: 'Task', priority: 1, tags: ['urgent'], dueDate: '2026-11-01' },
+            { id: 'import-3', parentId: 'import-2', text: 'Subtask' }
+        ]);
+    });
+
+    it('explains files it cannot import', () => {
+        expect(() => parseImport('todoist-json', 'not json', 'x.json')).toThrow(ImportError);
+        expect(() => parseImport('csv', 'Foo,Bar\n1,2', 'x.csv')).toThrow(/No title column/);
+        expect(() => parseImport('todoist-csv', 'TYPE,CONTENT\n', 'x.csv')).toThrow(ImportError);
+    });
+});
+
+describe('detectImportFormat', () => {
+    it('tells the formats apart by name and contents', () => {
+        expect(detectImportFormat('list.taskpaper', '')).toBe('taskpaper');
+        expect(detectImportFormat('list.txt', 'Home:\n\t- Sink')).toBe('taskpaper');
+        expect(detectImportFormat('Personal.csv', 'TYPE,CONTENT,PRIORITY\n')).toBe('todoist-csv');
+        expect(detectImportFormat('tasks.csv', 'Title,Due\n')).toBe('csv');
+        expect(detectImportFormat('backup.json', '{"items":[]}')).toBe('todoist-json');
+        expect(detectImportFormat('notes.json', '{"foo":1}')).toBeNull();
+    });
+});
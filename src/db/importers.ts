@@ -0,0 +1,401 @@
+import { format, isValid, parse } from 'date-fns';
+import { type Priority, type RecurrenceRule } from './db';
+import { type ImportedTask } from './actions';
+import { createDefaultRecurrence } from './recurrence';
+
+// Importers for other apps' exports. Each turns a file into a flat list of ImportedTasks:
+//
+//   Todoist JSON / CSV   projects and sections become parent tasks, labels become tags, p1–p3 carry over as priorities
+//   TaskPaper            "Project:" lines become parent tasks, @due(...) the due date, @priority(1) the priority, @done completes, other @tags are tags
+//   CSV spreadsheet      columns are matched by header name; a project/list column groups rows under parent tasks
+
+export const IMPORT_FORMATS = {
+    'todoist-json': 'Todoist (JSON)',
+    'todoist-csv': 'Todoist (CSV)',
+    taskpaper: 'TaskPaper',
+    csv: 'CSV spreadsheet'
+} as const;
+
+export type ImportFormat = keyof typeof IMPORT_FORMATS;
+
+export class ImportError extends Error { }
+
+// Collects tasks in file order, handing out ids that are unique within the import
+const createCollector = () => {
+    const tasks: ImportedTask[] = [];
+    const add = (parentId: string, text: string, fields: Omit<ImportedTask, 'id' | 'parentId' | 'text'> = {}) => {
+        const task: ImportedTask = { id: `import-${tasks.length}`, parentId, text: text.trim(), ...fields };
+        tasks.push(task);
+        return task;
+    };
+    return { tasks, add };
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'M/d/yyyy', 'd.M.yyyy', 'MMM d yyyy', 'd MMM yyyy'];
+
+// Normalizes the date formats exports commonly use to yyyy-MM-dd; anything else (e.g. "tomorrow") is dropped
+export const normalizeDate = (value: string | null | undefined) => {
+    const text = (value ?? '').trim().replace(/,/g, '');
+    if (!text) return null;
+    const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ]|$)/);
+    if (iso) return isValid(parse(iso[1], 'yyyy-MM-dd', new Date())) ? iso[1] : null;
+    for (const pattern of DATE_FORMATS) {
+        const date = parse(text, pattern, new Date());
+        if (isValid(date)) return format(date, 'yyyy-MM-dd');
+    }
+    return null;
+};
+
+// The time of an ISO date-time ("2026-11-01T09:30:00", "2026-11-01 09:30"), with whether it is UTC
+const normalizeTime = (value: string | null | undefined) => {
+    const match = (value ?? '').trim().match(/^\d{4}-\d{2}-\d{2}[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z)?$/);
+    return match ? { dueTime: `${match[1]}:${match[2]}`, timeZone: match[3] ? 'UTC' : null } : { dueTime: null, timeZone: null };
+};
+
+const RECURRENCE_UNITS: Record<string, RecurrenceRule['frequency']> = {
+    day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly'
+};
+
+// "every day", "every 2 weeks", "every! month": the simple repeat rules other apps write out.
+// "every!" repeats counted from completion.
+export const parseRecurrenceText = (value: string | null | undefined): RecurrenceRule | null => {
+    const text = (value ?? '').trim().toLowerCase();
+    const shortcut = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[text];
+    const match = shortcut ? ['', '', '1', shortcut] : text.match(/^every(!?)\s+(?:(\d+)\s+)?(day|week|month|year)s?$/);
+    if (!match) return null;
+    const rule = createDefaultRecurrence(RECURRENCE_UNITS[match[3]]);
+    rule.interval = Math.max(1, parseInt(match[2] || '1', 10));
+    if (match[1] === '!') rule.mode = 'afterCompletion';
+    return rule;
+};
+
+const importedPriority = (level: number): { priority?: Priority } => level >= 1 && level <= 3 ? { priority: level as Priority } : {};
+
+const unique = (tags: string[]) => Array.from(new Set(tags.filter(Boolean)));
+
+// --- CSV ---
+
+const detectDelimiter = (headerLine: string) => {
+    const counts = [',', ';', '\t'].map(d => [d, headerLine.split(d).length] as const);
+    return counts.reduce((best, c) => c[1] > best[1] ? c : best)[0];
+};
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0]);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines come through as a single empty field
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Header-keyed access to CSV rows; `names` are alternatives tried in order
+const createTable = (text: string) => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new ImportError('The file is empty.');
+    const columns = header.map(h => h.trim().toLowerCase());
+    const column = (...names: string[]) => {
+        for (const name of names) {
+            const index = columns.indexOf(name);
+            if (index >= 0) return index;
+        }
+        return -1;
+    };
+    const cell = (row: string[], index: number) => index >= 0 ? (row[index] ?? '').trim() : '';
+    return { rows, column, cell };
+};
+
+const LABEL = /(?:^|\s)@([^\s@]+)/g;
+
+// Todoist's CSV template: one project per file, TYPE is task, section or note, INDENT nests tasks,
+// labels are written into CONTENT as @label, and PRIORITY 1 is the highest.
+const parseTodoistCsv = (text: string, fileName: string) => {
+    const table = createTable(text);
+    const [type, content, description, priority, indent, date] =
+        ['type', 'content', 'description', 'priority', 'indent', 'date'].map(name => table.column(name));
+    if (type < 0 || content < 0) throw new ImportError('This is not a Todoist CSV export (TYPE and CONTENT columns are missing).');
+
+    const { tasks, add } = createCollector();
+    const project = add('root', fileName.replace(/\.[^.]+$/, '') || 'Todoist');
+    let section: ImportedTask | null = null;
+    // Most recent task at each indent level
+    const levels: ImportedTask[] = [];
+
+    for (const row of table.rows) {
+        const kind = table.cell(row, type).toLowerCase();
+        const raw = table.cell(row, content);
+        if (kind === 'section') {
+            section = add(project.id, raw);
+            levels.length = 0;
+        } else if (kind === 'task') {
+            const level = Math.max(1, parseInt(table.cell(row, indent), 10) || 1);
+            const parent = levels[level - 2] ?? section ?? project;
+            const dateText = table.cell(row, date);
+            const task = add(parent.id, raw.replace(LABEL, ' ').replace(/\s+/g, ' '), {
+                notes: table.cell(row, description),
+                dueDate: normalizeDate(dateText),
+                recurrence: parseRecurrenceText(dateText),
+                tags: unique(Array.from(raw.matchAll(LABEL), m => m[1])),
+                ...importedPriority(parseInt(table.cell(row, priority), 10))
+            });
+            levels.length = level - 1;
+            levels[level - 1] = task;
+        } else if (kind === 'note' && levels.length > 0) {
+            const owner = levels[levels.length - 1];
+            owner.notes = owner.notes ? `${owner.notes}\n${raw}` : raw;
+        }
+    }
+    if (tasks.length === 1) throw new ImportError('The file has no tasks.');
+    return tasks;
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'x', 'done', 'completed', 'complete', 'closed'];
+
+// Any spreadsheet with a header row. Only a title column is required.
+const parseGenericCsv = (text: string) => {
+    const table = createTable(text);
+    const title = table.column('title', 'task', 'name', 'content', 'text', 'summary', 'subject');
+    if (title < 0) throw new ImportError('No title column found. Name one of the columns "Title", "Task" or "Name".');
+    const notes = table.column('notes', 'note', 'description', 'details');
+    const due = table.column('due date', 'due', 'due_date', 'duedate', 'deadline', 'date');
+    const tags = table.column('tags', 'labels', 'tag', 'label');
+    const done = table.column('completed', 'done', 'status', 'complete');
+    const priority = table.column('priority');
+    const project = table.column('project', 'list', 'category', 'folder');
+    const section = table.column('section', 'group');
+    const repeat = table.column('repeat', 'recurrence', 'recurring');
+
+    const { tasks, add } = createCollector();
+    // Parent tasks by project name, and by project + section
+    const groups = new Map<string, ImportedTask>();
+    const group = (key: string, parentId: string, name: string) => {
+        if (!groups.has(key)) groups.set(key, add(parentId, name));
+        return groups.get(key)!.id;
+    };
+
+    for (const row of table.rows) {
+        const text = table.cell(row, title);
+        if (!text) continue;
+        const projectName = table.cell(row, project);
+        const sectionName = table.cell(row, section);
+        let parentId = projectName ? group(`p:${projectName}`, 'root', projectName) : 'root';
+        if (sectionName) parentId = group(`s:${projectName}\n${sectionName}`, parentId, sectionName);
+
+        const priorityText = table.cell(row, priority).toLowerCase().replace(/^p/, '');
+        const priorityLevel = { high: 1, medium: 2, low: 3 }[priorityText] ?? parseInt(priorityText, 10);
+        add(parentId, text, {
+            notes: table.cell(row, notes),
+            dueDate: normalizeDate(table.cell(row, due)),
+            ...normalizeTime(table.cell(row, due)),
+            recurrence: parseRecurrenceText(table.cell(row, repeat)),
+            completed: TRUE_VALUES.includes(table.cell(row, done).toLowerCase()),
+            tags: unique(table.cell(row, tags).split(/[,;]/).map(t => t.trim().replace(/^#/, '').replace(/\s+/g, '-'))),
+            ...importedPriority(priorityLevel)
+        });
+    }
+    if (tasks.length === 0) throw new ImportError('The file has no rows with a title.');
+    return tasks;
+};
+
+// --- Todoist JSON ---
+
+type TodoistId = string | number;
+
+interface TodoistItem {
+    id: TodoistId;
+    content: string;
+    description?: string;
+    project_id?: TodoistId | null;
+    section_id?: TodoistId | null;
+    parent_id?: TodoistId | null;
+    labels?: string[];
+    priority?: number;       // 4 is the highest (p1), 1 is no priority
+    due?: { date?: string; string?: string; is_recurring?: boolean } | null;
+    checked?: boolean | number;
+    is_completed?: boolean;
+    child_order?: number;
+    order?: number;
+}
+
+interface TodoistGroup {
+    id: TodoistId;
+    name: string;
+    parent_id?: TodoistId | null;
+    project_id?: TodoistId | null;
+    child_order?: number;
+    section_order?: number;
+    order?: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const byOrder = <T extends { child_order?: number; section_order?: number; order?: number }>(list: T[]) =>
+    [...list].sort((a, b) => (a.child_order ?? a.section_order ?? a.order ?? 0) - (b.child_order ?? b.section_order ?? b.order ?? 0));
+
+// A Sync API / backup dump ({ projects, sections, items }) or a plain REST list of tasks
+const parseTodoistJson = (text: string) => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ImportError('This file is not valid JSON.');
+    }
+    const list = (key: string) => isRecord(data) && Array.isArray(data[key]) ? data[key] as unknown[] : [];
+    const items = (Array.isArray(data) ? data : [...list('items'), ...list('tasks')])
+        .filter((i): i is TodoistItem => isRecord(i) && typeof i.content === 'string' && i.id !== undefined);
+    if (items.length === 0) throw new ImportError('No Todoist tasks found in this file.');
+    const projects = list('projects').filter((p): p is TodoistGroup => isRecord(p) && typeof p.name === 'string');
+    const sections = list('sections').filter((s): s is TodoistGroup => isRecord(s) && typeof s.name === 'string');
+
+    const { tasks, add } = createCollector();
+    const key = (kind: string, id: TodoistId | null | undefined) => `${kind}:${id}`;
+    // Todoist ids to import ids
+    const ids = new Map<string, string>();
+
+    // Parents are added before their children, so a parent's import id is always known
+    const addProjects = (parentId: TodoistId | null, importParentId: string) => {
+        byOrder(projects.filter(p => (p.parent_id ?? null) === parentId)).forEach(p => {
+            ids.set(key('project', p.id), add(importParentId, p.name).id);
+            addProjects(p.id, ids.get(key('project', p.id))!);
+        });
+    };
+    addProjects(null, 'root');
+    // Projects whose parent isn't in the file
+    projects.filter(p => !ids.has(key('project', p.id))).forEach(p => ids.set(key('project', p.id), add('root', p.name).id));
+    byOrder(sections).forEach(s => {
+        ids.set(key('section', s.id), add(ids.get(key('project', s.project_id)) ?? 'root', s.name).id);
+    });
+
+    const itemIds = new Set(items.map(i => key('item', i.id)));
+    const addItems = (matches: (item: TodoistItem) => boolean) => {
+        byOrder(items.filter(matches)).forEach(item => {
+            const parentId = ids.get(key('item', item.parent_id))
+                ?? ids.get(key('section', item.section_id))
+                ?? ids.get(key('project', item.project_id))
+                ?? 'root';
+            ids.set(key('item', item.id), add(parentId, item.content, {
+                notes: item.description ?? '',
+                completed: !!(item.checked || item.is_completed),
+                dueDate: normalizeDate(item.due?.date),
+                ...normalizeTime(item.due?.date),
+                recurrence: item.due?.is_recurring ? parseRecurrenceText(item.due.string) : null,
+                tags: unique(item.labels ?? []),
+                ...importedPriority(5 - (item.priority ?? 1))
+            }).id);
+            addItems(child => child.parent_id != null && key('item', child.parent_id) === key('item', item.id));
+        });
+    };
+    addItems(item => item.parent_id == null || !itemIds.has(key('item', item.parent_id)));
+    return tasks;
+};
+
+// --- TaskPaper ---
+
+const TAG_PATTERN = /(?:^|\s)@([\w-]+)(?:\(([^)]*)\))?/g;
+
+// Tab- (or space-) indented lines: "Name:" is a project, "- text" a task, anything else a note on the item above
+const parseTaskPaper = (text: string) => {
+    const { tasks, add } = createCollector();
+    const stack: { indent: number; task: ImportedTask }[] = [];
+
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+        if (!line.trim()) continue;
+        const indent = line.match(/^[\t ]*/)![0].replace(/ {4}/g, '\t').replace(/ /g, '').length;
+        const content = line.trim();
+        const isTask = /^[-*]\s/.test(content);
+        const tagged = content.replace(/^[-*]\s+/, '');
+        const isProject = !isTask && /:$/.test(tagged.replace(TAG_PATTERN, '').trim());
+
+        if (!isTask && !isProject) {
+            const owner = [...stack].reverse().find(s => s.indent < indent) ?? stack[stack.length - 1];
+            if (owner) {
+                owner.task.notes = owner.task.notes ? `${owner.task.notes}\n${content}` : content;
+                continue;
+            }
+        }
+
+        const tags = Array.from(tagged.matchAll(TAG_PATTERN), m => ({ name: m[1].toLowerCase(), value: m[2] }));
+        let title = tagged.replace(TAG_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+        if (isProject) title = title.replace(/:$/, '');
+        const due = tags.find(t => t.name === 'due');
+        const priority = tags.find(t => t.name === 'priority');
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const task = add(stack.length > 0 ? stack[stack.length - 1].task.id : 'root', title, {
+            completed: tags.some(t => t.name === 'done'),
+            dueDate: normalizeDate(due?.value),
+            tags: unique(tags.filter(t => !['done', 'due', 'priority'].includes(t.name)).map(t => t.name)),
+            ...importedPriority(parseInt(priority?.value ?? '', 10))
+        });
+        stack.push({ indent, task });
+    }
+    if (tasks.length === 0) throw new ImportError('The file has no tasks.');
+    return tasks;
+};
+
+// Guesses the format from the file name and contents, or null when it isn't one of these
+export const detectImportFormat = (fileName: string, text: string): ImportFormat | null => {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.taskpaper')) return 'taskpaper';
+    // A plain-text TaskPaper file has an unindented "Project:" line and "- " tasks
+    if (name.endsWith('.txt') && /^[^\s\-*#].*:[ \t]*$/m.test(text) && /^\s*- /m.test(text)) return 'taskpaper';
+    if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+        const header = parseCsv(text.split(/\r?\n/, 1)[0])[0]?.map(h => h.trim().toLowerCase()) ?? [];
+        return header.includes('type') && header.includes('content') ? 'todoist-csv' : 'csv';
+    }
+    if (name.endsWith('.json')) {
+        try {
+            const data = JSON.parse(text);
+            if (Array.isArray(data) ? isRecord(data[0]) && 'content' in data[0] : isRecord(data) && (Array.isArray(data.items) || Array.isArray(data.projects))) {
+                return 'todoist-json';
+            }
+        } catch {
+            return null;
+        }
+    }
+    return null;
+};
+
+export const parseImport = (importFormat: ImportFormat, text: string, fileName: string): ImportedTask[] => {
+    switch (importFormat) {
+        case 'todoist-json': return parseTodoistJson(text);
+        case 'todoist-csv': return parseTodoistCsv(text, fileName);
+        case 'taskpaper': return parseTaskPaper(text);
+        case 'csv': return parseGenericCsv(text);
+    }
+};
@@ -0,0 +1,206 @@
+// Keyboard shortcuts: every action with its default keys, the user's rebindings and matching key events.
+//
+// A binding is a string like "Mod+Shift+Z": modifiers in the order Mod, Alt, Shift, then the key. Mod is Ctrl,
+// or Cmd on a Mac; both work everywhere. Letters, digits and punctuation go by their place on the keyboard rather
+// than the typed character, so Alt and Shift combinations work on any layout.
+
+// Where a shortcut applies.
+// global: anywhere, text fields included.
+// list: outside text fields, which keep their own meaning for the keys (Ctrl+Z undoes typing in a field).
+// A task title doesn't count as a text field while several tasks are selected.
+// task: in the title of the focused task.
+export type ShortcutScope = 'global' | 'list' | 'task';
+
+export type ShortcutId =
+    | 'commandPalette' | 'clearSelection' | 'undo' | 'redo' | 'deleteTask'
+    | 'newTask' | 'newSubtask' | 'indent' | 'outdent' | 'moveUp' | 'moveDown' | 'mergeWithPrevious'
+    | 'collapse' | 'expand' | 'previousTask' | 'nextTask' | 'extendSelectionUp' | 'extendSelectionDown'
+    | 'priority1' | 'priority2' | 'priority3' | 'priority4';
+
+export interface Shortcut {
+    id: ShortcutId;
+    label: string;
+    group: string;
+    scope: ShortcutScope;
+    defaults: string[];
+}
+
+export const SHORTCUTS: Shortcut[] = [
+    { id: 'commandPalette', label: 'Open the command palette', group: 'General', scope: 'global', defaults: ['Mod+K'] },
+    { id: 'clearSelection', label: 'Clear a multi-selection', group: 'General', scope: 'global', defaults: ['Escape'] },
+    { id: 'undo', label: 'Undo', group: 'General', scope: 'list', defaults: ['Mod+Z'] },
+    { id: 'redo', label: 'Redo', group: 'General', scope: 'list', defaults: ['Mod+Y', 'Mod+Shift+Z'] },
+    { id: 'deleteTask', label: 'Delete the selected tasks', group: 'General', scope: 'list', defaults: ['Delete'] },
+    { id: 'newTask', label: 'New task below (splits the title at the caret)', group: 'Editing', scope: 'task', defaults: ['Enter'] },
+    { id: 'newSubtask', label: 'New subtask', group: 'Editing', scope: 'task', defaults: ['Mod+Enter'] },
+    { id: 'indent', label: 'Indent', group: 'Editing', scope: 'task', defaults: ['Tab'] },
+    { id: 'outdent', label: 'Outdent', group: 'Editing', scope: 'task', defaults: ['Shift+Tab'] },
+    { id: 'moveUp', label: 'Move up', group: 'Editing', scope: 'task', defaults: ['Alt+ArrowUp'] },
+    { id: 'moveDown', label: 'Move down', group: 'Editing', scope: 'task', defaults: ['Alt+ArrowDown'] },
+    { id: 'mergeWithPrevious', label: 'Merge into the task above (caret at the start)', group: 'Editing', scope: 'task', defaults: ['Backspace'] },
+    { id: 'priority1', label: 'Set priority P1', group: 'Editing', scope: 'task', defaults: ['Alt+1'] },
+    { id: 'priority2', label: 'Set priority P2', group: 'Editing', scope: 'task', defaults: ['Alt+2'] },
+    { id: 'priority3', label: 'Set priority P3', group: 'Editing', scope: 'task', defaults: ['Alt+3'] },
+    { id: 'priority4', label: 'Set priority P4', group: 'Editing', scope: 'task', defaults: ['Alt+4'] },
+    { id: 'collapse', label: 'Collapse', group: 'Navigation', scope: 'task', defaults: ['Mod+.'] },
+    { id: 'expand', label: 'Expand', group: 'Navigation', scope: 'task', defaults: ['Mod+Shift+.'] },
+    { id: 'previousTask', label: 'Previous task', group: 'Navigation', scope: 'task', defaults: ['ArrowUp'] },
+    { id: 'nextTask', label: 'Next task', group: 'Navigation', scope: 'task', defaults: ['ArrowDown'] },
+    { id: 'extendSelectionUp', label: 'Extend the selection up', group: 'Navigation', scope: 'task', defaults: ['Shift+ArrowUp'] },
+    { id: 'extendSelectionDown', label: 'Extend the selection down', group: 'Navigation', scope: 'task', defaults: ['Shift+ArrowDown'] }
+];
+
+export type Keymap = Record<ShortcutId, string[]>;
+
+const KEYMAP_KEY = 'keymap';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+const PUNCTUATION_CODES: Record<string, string> = {
+    Period: '.', Comma: ',', Slash: '/', Backslash: '\\', Semicolon: ';', Quote: "'",
+    BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Backquote: '`'
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// The binding a key press makes, or null for a lone modifier. Letters follow the keyboard layout, so Mod+Z is the
+// key labelled Z on AZERTY or Dvorak too. Only where Shift or Alt turned the key into another character, as with
+// Shift+1 or Alt+1 on a Mac, or on a layout without Latin letters, does the key's position name it.
+export const eventToBinding = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    let key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    if (e.key.length === 1 && !/^[a-z]$/i.test(e.key)) {
+        if (e.code.startsWith('Key') && !/^[0-9]$/.test(e.key) && !Object.values(PUNCTUATION_CODES).includes(e.key)) key = e.code.slice(3);
+        else if (e.shiftKey || e.altKey) {
+            if (e.code.startsWith('Digit')) key = e.code.slice(5);
+            else if (PUNCTUATION_CODES[e.code]) key = PUNCTUATION_CODES[e.code];
+        }
+    }
+
+    const parts = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Mod');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    return [...parts, key].join('+');
+};
+
+const KEY_NAMES: Record<string, string> = {
+    ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→', Escape: 'Esc', Delete: 'Del'
+};
+
+// "Mod+Shift+Z" as the keys read on this keyboard: "Ctrl+Shift+Z", or "⌘⇧Z" on a Mac
+export const formatBinding = (binding: string) => {
+    const parts = binding.split('+');
+    // A "+" key leaves an empty last part
+    const key = parts[parts.length - 1] || '+';
+    const modifiers = parts.slice(0, -1).filter(Boolean);
+    const name = KEY_NAMES[key] ?? key;
+    if (isMac) {
+        const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+        return modifiers.map(m => symbols[m]).join('') + name;
+    }
+    return [...modifiers.map(m => m === 'Mod' ? 'Ctrl' : m), name].join('+');
+};
+
+// Shortcuts that could both fire for one key press: a global one overlaps every scope
+const scopesOverlap = (a: ShortcutScope, b: ShortcutScope) => a === b || a === 'global' || b === 'global';
+
+const defaultKeymap = () => Object.fromEntries(SHORTCUTS.map(s => [s.id, s.defaults])) as Keymap;
+
+class KeymapManager {
+    private keymap: Keymap = this.load();
+    private listeners: (() => void)[] = [];
+
+    // Replaced on every change, so it can be a useSyncExternalStore snapshot
+    getKeymap() {
+        return this.keymap;
+    }
+
+    getBindings(id: ShortcutId) {
+        return this.keymap[id];
+    }
+
+    // The first binding of a shortcut, formatted for a tooltip or hint; undefined when it is disabled
+    describe(id: ShortcutId) {
+        const binding = this.keymap[id][0];
+        return binding ? formatBinding(binding) : undefined;
+    }
+
+    // Whether a key press triggers the shortcut
+    matches(e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>, id: ShortcutId) {
+        const binding = eventToBinding(e);
+        return binding !== null && this.keymap[id].includes(binding);
+    }
+
+    // An empty list disables the shortcut
+    setBindings(id: ShortcutId, bindings: string[]) {
+        this.setKeymap({ ...this.keymap, [id]: [...new Set(bindings)] });
+    }
+
+    reset(id: ShortcutId) {
+        this.setBindings(id, SHORTCUTS.find(s => s.id === id)!.defaults);
+    }
+
+    resetAll() {
+        this.setKeymap(defaultKeymap());
+    }
+
+    // The other shortcuts a binding would also trigger, where `id` is used
+    findConflicts(id: ShortcutId, binding: string): Shortcut[] {
+        const scope = SHORTCUTS.find(s => s.id === id)!.scope;
+        return SHORTCUTS.filter(s => s.id !== id && scopesOverlap(s.scope, scope) && this.keymap[s.id].includes(binding));
+    }
+
+    isDefault(id: ShortcutId) {
+        const defaults = SHORTCUTS.find(s => s.id === id)!.defaults;
+        const bindings = this.keymap[id];
+        return bindings.length === defaults.length && bindings.every(b => defaults.includes(b));
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private setKeymap(keymap: Keymap) {
+        this.keymap = keymap;
+        this.save();
+        this.listeners.forEach(l => l());
+    }
+
+    // Stored per device, like the theme. Only the shortcuts the user changed, so new defaults still arrive.
+    private load(): Keymap {
+        const keymap = defaultKeymap();
+        try {
+            const saved = JSON.parse(localStorage.getItem(KEYMAP_KEY) || '{}');
+            SHORTCUTS.forEach(s => {
+                const bindings = saved[s.id];
+                if (Array.isArray(bindings) && bindings.every(b => typeof b === 'string')) keymap[s.id] = bindings;
+            });
+        } catch {
+            // Keep the defaults
+        }
+        return keymap;
+    }
+
+    private save() {
+        const changed = Object.fromEntries(SHORTCUTS.filter(s => !this.isDefault(s.id)).map(s => [s.id, this.keymap[s.id]]));
+        localStorage.setItem(KEYMAP_KEY, JSON.stringify(changed));
+    }
+}
+
+export const keymap = new KeymapManager();
+
+// "Undo (Ctrl+Z)", or just the title while the shortcut is disabled
+export const withShortcut = (title: string, id: ShortcutId) => {
+    const keys = keymap.describe(id);
+    return keys ? `${title} (${keys})` : title;
+};
+
+// Whether the focus is in a text field, where only global shortcuts apply. A task title doesn't count while
+// several tasks are selected, since Shift+Arrow selections keep the focus in one.
+export const isTypingIn = (element: Element | null, multiSelect = false) =>
+    (element?.tagName === 'INPUT' || element?.tagName === 'TEXTAREA') &&
+    !(multiSelect && element.classList.contains('task-row-input'));
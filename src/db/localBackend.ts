@@ -0,0 +1,215 @@
+import { type Task } from './db';
+import type { RecordStore, Session, StorageBackend, TaskCriteria, TaskRepository, TaskWrite } from './repository';
+
+const LOCAL_DB_NAME = 'todo-local';
+const LOCAL_DB_VERSION = 3;
+const TASKS_STORE = 'tasks';
+const HISTORY_STORE = 'history';
+const VIEWS_STORE = 'views';
+
+const matches = (task: Task, criteria: TaskCriteria) =>
+    (Object.keys(criteria) as Array<keyof TaskCriteria>).every(key => task[key] === criteria[key]);
+
+// Optional durable storage behind the in-memory repository.
+export interface LocalPersistence {
+    load(): Promise<Task[]>;
+    // Saves the final state of every touched task in one transaction
+    save(tasks: Map<string, Task>, touchedIds: Set<string>): Promise<void>;
+}
+
+// Keeps all tasks in a Map. Used on its own for tests, and as the cache in front of IndexedDB.
+export class MemoryTaskRepository implements TaskRepository {
+    private tasks = new Map<string, Task>();
+    private ready: Promise<void>;
+    private persistence: LocalPersistence | null;
+    private listeners: ((tasks: Task[]) => void)[] = [];
+
+    constructor(initialTasks: Task[] = [], persistence: LocalPersistence | null = null) {
+        this.persistence = persistence;
+        initialTasks.forEach(t => this.tasks.set(t.id, structuredClone(t)));
+        this.ready = persistence
+            ? persistence.load().then(stored => stored.forEach(t => this.tasks.set(t.id, t)))
+            : Promise.resolve();
+    }
+
+    async getTask(id: string) {
+        await this.ready;
+        const task = this.tasks.get(id);
+        return task ? structuredClone(task) : null;
+    }
+
+    async getTasks(ids: string[]) {
+        await this.ready;
+        return ids.flatMap(id => {
+            const task = this.tasks.get(id);
+            return task ? [structuredClone(task)] : [];
+        });
+    }
+
+    async findChildren(parentIds: string[]) {
+        await this.ready;
+        const parents = new Set(parentIds);
+        return Array.from(this.tasks.values())
+            .filter(t => parents.has(t.parentId))
+            .map(t => structuredClone(t));
+    }
+
+    async findTasks(criteria: TaskCriteria = {}) {
+        await this.ready;
+        return Array.from(this.tasks.values())
+            .filter(t => matches(t, criteria))
+            .map(t => structuredClone(t));
+    }
+
+    async commit(writes: TaskWrite[]) {
+        await this.ready;
+        if (writes.length === 0) return;
+
+        // Apply to a copy first so a failing write leaves the store untouched
+        const next = new Map(this.tasks);
+        for (const w of writes) {
+            if (w.type === 'set') {
+                next.set(w.task.id, structuredClone(w.task));
+            } else if (w.type === 'update') {
+                const existing = next.get(w.id);
+                if (!existing) throw new Error(`Task ${w.id} does not exist`);
+                next.set(w.id, { ...existing, ...structuredClone(w.changes) });
+            } else {
+                next.delete(w.id);
+            }
+        }
+
+        if (this.persistence) {
+            await this.persistence.save(next, new Set(writes.map(w => w.type === 'set' ? w.task.id : w.id)));
+        }
+        this.tasks = next;
+        this.notify();
+    }
+
+    subscribe(listener: (tasks: Task[]) => void) {
+        this.listeners.push(listener);
+        this.ready.then(() => {
+            if (this.listeners.includes(listener)) listener(this.snapshot());
+        });
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private snapshot() {
+        return Array.from(this.tasks.values()).map(t => structuredClone(t));
+    }
+
+    private notify() {
+        const tasks = this.snapshot();
+        this.listeners.forEach(l => l(tasks));
+    }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionToPromise = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openLocalDatabase = () => {
+    const request = indexedDB.open(LOCAL_DB_NAME, LOCAL_DB_VERSION);
+    request.onupgradeneeded = () => {
+        const idb = request.result;
+        for (const name of [TASKS_STORE, HISTORY_STORE, VIEWS_STORE]) {
+            if (!idb.objectStoreNames.contains(name)) {
+                idb.createObjectStore(name, { keyPath: 'id' });
+            }
+        }
+    };
+    return requestToPromise(request);
+};
+
+export const createIndexedDbPersistence = (idb: Promise<IDBDatabase>): LocalPersistence => {
+    return {
+        async load() {
+            const store = (await idb).transaction(TASKS_STORE).objectStore(TASKS_STORE);
+            return await requestToPromise(store.getAll()) as Task[];
+        },
+        async save(tasks, touchedIds) {
+            const tx = (await idb).transaction(TASKS_STORE, 'readwrite');
+            const store = tx.objectStore(TASKS_STORE);
+            touchedIds.forEach(id => {
+                const task = tasks.get(id);
+                if (task) store.put(task);
+                else store.delete(id);
+            });
+            await transactionToPromise(tx);
+        }
+    };
+};
+
+export class MemoryRecordStore<T extends { id: string }> implements RecordStore<T> {
+    private records = new Map<string, T>();
+
+    async load() {
+        return Array.from(this.records.values()).map(r => structuredClone(r));
+    }
+
+    async put(records: T[]) {
+        records.forEach(r => this.records.set(r.id, structuredClone(r)));
+    }
+
+    async remove(ids: string[]) {
+        ids.forEach(id => this.records.delete(id));
+    }
+}
+
+const createIndexedDbRecordStore = <T extends { id: string }>(idb: Promise<IDBDatabase>, storeName: string): RecordStore<T> => ({
+    async load() {
+        const store = (await idb).transaction(storeName).objectStore(storeName);
+        return await requestToPromise(store.getAll()) as T[];
+    },
+    async put(records) {
+        const tx = (await idb).transaction(storeName, 'readwrite');
+        records.forEach(r => tx.objectStore(storeName).put(r));
+        await transactionToPromise(tx);
+    },
+    async remove(ids) {
+        const tx = (await idb).transaction(storeName, 'readwrite');
+        ids.forEach(id => tx.objectStore(storeName).delete(id));
+        await transactionToPromise(tx);
+    }
+});
+
+const LOCAL_STATE = { user: { uid: 'local', email: null }, loading: false };
+
+// Local backends have a single permanent user, so there is nothing to sign in or out of.
+const localSession: Session = {
+    requiresSignIn: false,
+    getState: () => LOCAL_STATE,
+    subscribe: () => () => { },
+    signIn: async () => { },
+    signUp: async () => { },
+    signOut: async () => { }
+};
+
+export const createLocalBackend = (persistent: boolean, initialTasks: Task[] = []): StorageBackend => {
+    if (!persistent) {
+        return {
+            repository: new MemoryTaskRepository(initialTasks),
+            history: new MemoryRecordStore(),
+            views: new MemoryRecordStore(),
+            session: localSession,
+            sync: null
+        };
+    }
+    const idb = openLocalDatabase();
+    return {
+        repository: new MemoryTaskRepository(initialTasks, createIndexedDbPersistence(idb)),
+        history: createIndexedDbRecordStore(idb, HISTORY_STORE),
+        views: createIndexedDbRecordStore(idb, VIEWS_STORE),
+        session: localSession,
+        sync: null
+    };
+};
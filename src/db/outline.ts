@@ -0,0 +1,146 @@
+import { format } from 'date-fns';
+import { type Task } from './db';
+import { type ImportedTask } from './actions';
+import { compareRanks } from './rank';
+
+// Markdown checklist / plain-text outline conversion.
+//
+//   - [ ] Write spec due:2026-11-01 #work
+//     - [x] Collect requirements
+//       Notes are indented lines under an item that aren't list items themselves.
+//
+// On import, list markers and checkboxes are optional: an outline with no list markers at all
+// turns every line into a task, nested by indentation.
+
+export interface OutlineNode {
+    task: Task;
+    children: OutlineNode[];
+}
+
+const INDENT = '  ';
+
+// Nests `tasks` by parentId in sibling order. With `rootId` only that task and its descendants are kept.
+export const buildOutline = (tasks: Task[], rootId?: string): OutlineNode[] => {
+    const nodes = new Map(tasks.map(task => [task.id, { task, children: [] as OutlineNode[] }]));
+    const roots: OutlineNode[] = [];
+    nodes.forEach(node => {
+        const parent = nodes.get(node.task.parentId);
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    });
+    const sort = (list: OutlineNode[]) => {
+        list.sort((a, b) => compareRanks(a.task.order, b.task.order));
+        list.forEach(n => sort(n.children));
+    };
+    sort(roots);
+
+    if (rootId === undefined) return roots;
+    const root = nodes.get(rootId);
+    return root ? [root] : [];
+};
+
+// Leaves out the listed tasks with their subtrees, e.g. where a selection can't be moved to
+export const withoutSubtrees = (nodes: OutlineNode[], ids: Set<string>): OutlineNode[] =>
+    nodes.filter(n => !ids.has(n.task.id)).map(n => ({ ...n, children: withoutSubtrees(n.children, ids) }));
+
+// Every task as a flat, depth-first list with indented labels, for parent pickers
+export const flattenOutline = (nodes: OutlineNode[], depth = 0): { id: string; label: string }[] =>
+    nodes.flatMap(n => [
+        { id: n.task.id, label: '\u00A0\u00A0'.repeat(depth) + (n.task.text || 'Untitled') },
+        ...flattenOutline(n.children, depth + 1)
+    ]);
+
+export const outlineToMarkdown = (nodes: OutlineNode[]) => {
+    const lines: string[] = [];
+    const write = (list: OutlineNode[], depth: number) => {
+        for (const { task, children } of list) {
+            const indent = INDENT.repeat(depth);
+            const parts = [`${indent}- [${task.completed ? 'x' : ' '}] ${task.text.trim()}`];
+            if (task.dueDate) parts.push(`due:${task.dueDate}`);
+            (task.tags || []).forEach(tag => parts.push(`#${tag.replace(/\s+/g, '-')}`));
+            lines.push(parts.join(' '));
+            (task.notes || '').split('\n').filter(line => line.trim()).forEach(line => {
+                lines.push(`${indent}${INDENT}${line.trim()}`);
+            });
+            write(children, depth + 1);
+        }
+    };
+    write(nodes, 0);
+    return lines.join('\n') + '\n';
+};
+
+export const outlineFileName = (title: string) =>
+    `${title.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'tasks'}-${format(new Date(), 'yyyy-MM-dd')}.md`;
+
+const LIST_ITEM = /^(?:[-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s*(.*)$/;
+const DUE = /(?:^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const TAG = /(?:^|\s)#([^\s#]+)/g;
+
+const indentWidth = (line: string) => {
+    let width = 0;
+    for (const ch of line) {
+        if (ch === ' ') width++;
+        else if (ch === '\t') width += 4;
+        else break;
+    }
+    return width;
+};
+
+// Pulls the checkbox, due:date and #tags out of one item's text
+const parseItem = (raw: string) => {
+    let text = raw;
+    let completed = false;
+    const box = text.match(CHECKBOX);
+    if (box) {
+        completed = box[1] !== ' ';
+        text = box[2];
+    }
+
+    let dueDate: string | null = null;
+    const due = text.match(DUE);
+    if (due) {
+        dueDate = due[1];
+        text = text.replace(DUE, ' ');
+    }
+
+    const tags = Array.from(text.matchAll(TAG), m => m[1]);
+    text = text.replace(TAG, ' ').replace(/\s+/g, ' ').trim();
+    return { text, completed, dueDate, tags: Array.from(new Set(tags)) };
+};
+
+export const parseOutline = (text: string): ImportedTask[] => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n').filter(line => line.trim());
+    const isMarkdown = lines.some(line => LIST_ITEM.test(line.trim()));
+
+    const tasks: ImportedTask[] = [];
+    // Open ancestors with the indentation they were written at
+    const stack: { indent: number; task: ImportedTask }[] = [];
+
+    for (const line of lines) {
+        const indent = indentWidth(line);
+        // Markdown headings become plain items, never notes
+        const heading = line.trim().match(/^#{1,6}\s+(.*)$/);
+        const content = heading ? heading[1] : line.trim();
+        const item = heading ? null : content.match(LIST_ITEM);
+
+        if (isMarkdown && !item && !heading) {
+            // Continuation line: notes of the closest item above that it is indented under
+            const owner = [...stack].reverse().find(s => s.indent < indent) ?? stack[stack.length - 1];
+            if (owner) {
+                owner.task.notes = owner.task.notes ? `${owner.task.notes}\n${content}` : content;
+                continue;
+            }
+        }
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const task: ImportedTask = {
+            id: `outline-${tasks.length}`,
+            parentId: stack.length > 0 ? stack[stack.length - 1].task.id : 'root',
+            ...parseItem(item ? item[1] : content)
+        };
+        tasks.push(task);
+        stack.push({ indent, task });
+    }
+    return tasks;
+};
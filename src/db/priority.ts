@@ -0,0 +1,19 @@
+import { type Priority, type Task } from './db';
+
+export const PRIORITIES: Priority[] = [1, 2, 3, 4];
+
+export const PRIORITY_NAMES: Record<Priority, string> = { 1: 'Urgent', 2: 'High', 3: 'Medium', 4: 'Normal' };
+
+// Tasks without a priority sit with the least important ones
+export const getPriority = (task: Pick<Task, 'priority'>): Priority => task.priority ?? 4;
+
+export const priorityLabel = (priority: Priority) => `P${priority}`;
+
+// "1" or "p1" (any case)
+export const parsePriority = (value: string): Priority | null => {
+    const match = value.trim().match(/^p?([1-4])$/i);
+    return match ? parseInt(match[1], 10) as Priority : null;
+};
+
+// What to store for a priority: the lowest one is the same as having none
+export const toStoredPriority = (priority: Priority) => priority === 4 ? null : priority;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { hasQuickAddFields, parseQuickAdd } from './quickAdd';
+
+// A Monday
+const today = new Date(2026, 9, 19);
+
+describe('parseQuickAdd', () => {
+    it('takes dates, times, tags, priority and focus out of the title', () => {
+        const result = parseQuickAdd('Send invoice tomorrow at 5pm #finance !p1 !focus', today);
+        expect(result).toMatchObject({
+            text: 'Send invoice',
+            dueDate: '2026-10-20',
+            dueTime: '17:00',
+            tags: ['finance'],
+            priority: 1,
+            isFocused: true,
+            recurrence: null
+        });
+        expect(result.tokens.map(t => t.kind)).toEqual(['date', 'time', 'tag', 'priority', 'focus']);
+    });
+
+    it('reads weekdays, month days and relative dates', () => {
+        expect(parseQuickAdd('Call mum fri', today).dueDate).toBe('2026-10-23');
+        expect(parseQuickAdd('Call mum mon', today).dueDate).toBe('2026-10-26');
+        expect(parseQuickAdd('Renew passport on mar 3', today).dueDate).toBe('2027-03-03');
+        expect(parseQuickAdd('Dentist 12 nov', today).dueDate).toBe('2026-11-12');
+        expect(parseQuickAdd('Review in 2 weeks', today).dueDate).toBe('2026-11-02');
+        expect(parseQuickAdd('Plan next month', today).dueDate).toBe('2026-11-01');
+    });
+
+    it('reads repeats and starts them on the next matching day', () => {
+        const monthly = parseQuickAdd('Pay rent every month', today);
+        expect(monthly.recurrence).toMatchObject({ frequency: 'monthly', interval: 1, mode: 'fixed' });
+        expect(monthly.dueDate).toBe('2026-10-19');
+
+        expect(parseQuickAdd('Water plants every! 3 days', today).recurrence).toMatchObject({ frequency: 'daily', interval: 3, mode: 'afterCompletion' });
+
+        const weekly = parseQuickAdd('Gym every tue and thu', today);
+        expect(weekly.recurrence?.weekdays).toEqual([2, 4]);
+        expect(weekly.dueDate).toBe('2026-10-20');
+    });
+
+    it('keeps only the first date and priority', () => {
+        const result = parseQuickAdd('Move meeting from today to tomorrow !p2 !p3', today);
+        expect(result.dueDate).toBe('2026-10-19');
+        expect(result.priority).toBe(2);
+        expect(result.text).toBe('Move meeting from to tomorrow !p3');
+    });
+
+    it('leaves escaped tokens and bare numbers in the title', () => {
+        const result = parseQuickAdd('Fix issue \\#12 \\today at 5', today);
+        expect(result.text).toBe('Fix issue #12 today at 5');
+        expect(result.tags).toEqual([]);
+        expect(result.dueDate).toBeNull();
+        expect(hasQuickAddFields(result)).toBe(false);
+    });
+
+    it('rejects times that do not exist', () => {
+        expect(parseQuickAdd('Meet at 13pm', today).dueTime).toBeNull();
+        expect(parseQuickAdd('Meet at 12am', today).dueTime).toBe('00:00');
+    });
+});
@@ -0,0 +1,196 @@
+import { addDays, addMonths, addWeeks, format, isValid, nextDay, parse, startOfMonth, type Day } from 'date-fns';
+import { type Priority, type RecurrenceRule } from './db';
+import { createDefaultRecurrence } from './recurrence';
+import { DATE_FORMAT } from './dates';
+import { parsePriority } from './priority';
+
+// Inline syntax for new tasks, e.g. "Send invoice next fri at 5pm #finance !p1 !focus every month".
+// Recognised tokens are taken out of the text; a backslash in front of one ("\#1", "\today") keeps it literal.
+
+export type QuickAddTokenKind = 'date' | 'time' | 'tag' | 'priority' | 'focus' | 'recurrence';
+
+export type QuickAddToken = {
+    kind: QuickAddTokenKind;
+    start: number;
+    end: number;
+    // Escaped tokens stay in the text without their backslash
+    escaped: boolean;
+};
+
+export type QuickAddFields = {
+    text: string;
+    dueDate: string | null;
+    dueTime: string | null;
+    tags: string[];
+    priority: Priority | null;
+    isFocused: boolean;
+    recurrence: RecurrenceRule | null;
+};
+
+export type QuickAddResult = QuickAddFields & { tokens: QuickAddToken[] };
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY = '(?:sun|mon|tue|wed|thu|fri|sat)(?:day|sday|nesday|rsday|urday)?|tues|thur|thurs';
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*';
+const UNITS: Record<string, RecurrenceRule['frequency']> = { day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly' };
+
+const weekdayIndex = (word: string) => WEEKDAYS.indexOf(word.slice(0, 3).toLowerCase()) as Day;
+
+// The weekday after `today`, so "fri" typed on a Friday means next week's
+const upcoming = (today: Date, word: string) => nextDay(today, weekdayIndex(word));
+
+const parseMonthDay = (month: string, day: string, today: Date) => {
+    const date = parse(`${month.slice(0, 3)} ${day}`, 'MMM d', today);
+    if (!isValid(date)) return null;
+    // A day that has already passed this year means next year's
+    return date < today ? parse(`${month.slice(0, 3)} ${day} ${today.getFullYear() + 1}`, 'MMM d yyyy', today) : date;
+};
+
+type Matcher = {
+    kind: QuickAddTokenKind;
+    pattern: RegExp;
+    read: (match: RegExpExecArray, today: Date) => Date | string | Priority | RecurrenceRule | null;
+};
+
+// A pattern that has to match whole words from the position it is tried at
+const words = (source: string, flags = 'i') => new RegExp(`(?:${source})(?=\\s|$)`, `${flags}y`);
+
+// Tried in order at each word start
+const MATCHERS: Matcher[] = [
+    {
+        kind: 'recurrence',
+        pattern: words('every(!?)\\s+(?:(\\d+)\\s+)?(day|week|month|year)s?'),
+        read: (m) => {
+            const rule = createDefaultRecurrence(UNITS[m[3].toLowerCase()]);
+            rule.interval = Math.max(1, parseInt(m[2] || '1', 10));
+            if (m[1] === '!') rule.mode = 'afterCompletion';
+            return rule;
+        }
+    },
+    {
+        kind: 'recurrence',
+        pattern: words('every\\s+(weekday|workday)'),
+        read: () => ({ ...createDefaultRecurrence('weekly'), weekdays: [1, 2, 3, 4, 5] })
+    },
+    {
+        kind: 'recurrence',
+        pattern: words(`every\\s+((?:${WEEKDAY})(?:\\s*(?:,|and)\\s*(?:${WEEKDAY}))*)`),
+        read: (m) => {
+            const days = m[1].split(/\s*(?:,|and)\s*/i).map(weekdayIndex);
+            return { ...createDefaultRecurrence('weekly'), weekdays: Array.from(new Set(days)).sort((a, b) => a - b) };
+        }
+    },
+    { kind: 'date', pattern: words('today'), read: (_, today) => today },
+    { kind: 'date', pattern: words('tomorrow|tmrw|tmr'), read: (_, today) => addDays(today, 1) },
+    { kind: 'date', pattern: words('next\\s+week'), read: (_, today) => nextDay(today, 1) },
+    { kind: 'date', pattern: words('next\\s+month'), read: (_, today) => startOfMonth(addMonths(today, 1)) },
+    { kind: 'date', pattern: words(`(?:next\\s+|on\\s+)?(${WEEKDAY})`), read: (m, today) => upcoming(today, m[1]) },
+    {
+        kind: 'date',
+        pattern: words('in\\s+(\\d+)\\s+(day|week|month)s?'),
+        read: (m, today) => {
+            const n = parseInt(m[1], 10);
+            const unit = m[2].toLowerCase();
+            return unit === 'day' ? addDays(today, n) : unit === 'week' ? addWeeks(today, n) : addMonths(today, n);
+        }
+    },
+    {
+        kind: 'date',
+        pattern: words('\\d{4}-\\d{2}-\\d{2}'),
+        read: (m, today) => {
+            const date = parse(m[0], DATE_FORMAT, today);
+            return isValid(date) ? date : null;
+        }
+    },
+    { kind: 'date', pattern: words(`(?:on\\s+)?(${MONTH})\\s+(\\d{1,2})`), read: (m, today) => parseMonthDay(m[1], m[2], today) },
+    { kind: 'date', pattern: words(`(?:on\\s+)?(\\d{1,2})\\s+(${MONTH})`), read: (m, today) => parseMonthDay(m[2], m[1], today) },
+    {
+        kind: 'time',
+        pattern: words('at\\s+(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?'),
+        read: (m) => {
+            // A bare "at 5" is too likely to be part of the title
+            if (!m[2] && !m[3]) return null;
+            let hours = parseInt(m[1], 10);
+            const minutes = parseInt(m[2] || '0', 10);
+            const meridiem = m[3]?.toLowerCase();
+            if (meridiem && (hours < 1 || hours > 12)) return null;
+            if (meridiem === 'pm' && hours < 12) hours += 12;
+            if (meridiem === 'am' && hours === 12) hours = 0;
+            if (hours > 23 || minutes > 59) return null;
+            return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+        }
+    },
+    { kind: 'tag', pattern: words('#([\\p{L}\\p{N}_-]+)', 'u'), read: (m) => m[1] },
+    { kind: 'priority', pattern: words('!(p[1-4])'), read: (m) => parsePriority(m[1]) },
+    { kind: 'focus', pattern: words('!focus'), read: () => 'focus' }
+];
+
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+const matchAt = (text: string, index: number, today: Date) => {
+    for (const matcher of MATCHERS) {
+        matcher.pattern.lastIndex = index;
+        const match = matcher.pattern.exec(text);
+        if (!match) continue;
+        const value = matcher.read(match, today);
+        if (value !== null) return { kind: matcher.kind, end: index + match[0].length, value };
+    }
+    return null;
+};
+
+export const parseQuickAdd = (input: string, today: Date = new Date()): QuickAddResult => {
+    const tokens: QuickAddToken[] = [];
+    const fields: QuickAddFields = { text: '', dueDate: null, dueTime: null, tags: [], priority: null, isFocused: false, recurrence: null };
+    let explicitDate = false;
+
+    for (let i = 0; i < input.length; i++) {
+        if (!isSpace(input[i - 1]) || isSpace(input[i])) continue;
+        const escaped = input[i] === '\\';
+        const found = matchAt(input, escaped ? i + 1 : i, today);
+        if (!found) continue;
+
+        // Only the first date, time, priority and repeat count; later ones read as part of the title
+        const { kind, value } = found;
+        const taken = (kind === 'date' && explicitDate) || (kind === 'time' && fields.dueTime) ||
+            (kind === 'priority' && fields.priority) || (kind === 'recurrence' && fields.recurrence);
+        if (taken && !escaped) continue;
+
+        tokens.push({ kind, start: i, end: found.end, escaped });
+        i = found.end;
+        if (escaped) continue;
+
+        if (kind === 'date') {
+            fields.dueDate = format(value as Date, DATE_FORMAT);
+            explicitDate = true;
+        } else if (kind === 'time') fields.dueTime = value as string;
+        else if (kind === 'recurrence') fields.recurrence = value as RecurrenceRule;
+        else if (kind === 'tag' && !fields.tags.includes(value as string)) fields.tags.push(value as string);
+        else if (kind === 'priority') fields.priority = value as Priority;
+        else if (kind === 'focus') fields.isFocused = true;
+    }
+
+    // A time or weekly repeat without a date starts today or on the first matching weekday
+    if (!explicitDate && fields.recurrence?.weekdays.length) {
+        const days = fields.recurrence.weekdays;
+        let date = today;
+        while (!days.includes(date.getDay())) date = addDays(date, 1);
+        fields.dueDate = format(date, DATE_FORMAT);
+    } else if (!explicitDate && (fields.dueTime || fields.recurrence)) {
+        fields.dueDate = format(today, DATE_FORMAT);
+    }
+
+    let text = '';
+    let last = 0;
+    for (const token of tokens) {
+        text += input.slice(last, token.start);
+        if (token.escaped) text += input.slice(token.start + 1, token.end);
+        last = token.end;
+    }
+    text += input.slice(last);
+    fields.text = text.replace(/\s+/g, ' ').trim();
+
+    return { ...fields, tokens };
+};
+
+// Whether the input has anything to apply beyond its text
+export const hasQuickAddFields = (result: QuickAddResult) => result.tokens.some(t => !t.escaped);
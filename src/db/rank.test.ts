@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { compareRanks, rankBetween, ranksAfter, ranksBetween, spreadRanks } from './rank';
+
+const isAscending = (ranks: string[]) => ranks.every((rank, i) => i === 0 || ranks[i - 1] < rank);
+
+describe('rankBetween', () => {
+    it('ranks strictly between two keys', () => {
+        const rank = rankBetween('a', 'b');
+        expect(rank > 'a' && rank < 'b').toBe(true);
+    });
+
+    it('ranks before the first and after the last key', () => {
+        expect(rankBetween(null, 'V') < 'V').toBe(true);
+        expect(rankBetween('V', null) > 'V').toBe(true);
+        expect(rankBetween(null, null)).not.toBe('');
+    });
+
+    it('keeps finding room when inserting at the same spot', () => {
+        let after = 'V';
+        for (let i = 0; i < 200; i++) {
+            const rank = rankBetween('U', after);
+            expect(rank > 'U' && rank < after).toBe(true);
+            after = rank;
+        }
+    });
+
+    it('rejects bounds that are out of order', () => {
+        expect(() => rankBetween('b', 'a')).toThrow();
+        expect(() => rankBetween('a', 'a')).toThrow();
+    });
+});
+
+describe('spreadRanks', () => {
+    it('gives ascending keys that never end in the zero digit', () => {
+        const ranks = spreadRanks(1000);
+        expect(ranks).toHaveLength(1000);
+        expect(isAscending(ranks)).toBe(true);
+        expect(ranks.some(rank => rank.endsWith('0'))).toBe(false);
+    });
+});
+
+describe('ranksAfter and ranksBetween', () => {
+    it('append after an existing key', () => {
+        const ranks = ranksAfter('z', 50);
+        expect(isAscending(ranks)).toBe(true);
+        expect(ranks[0] > 'z').toBe(true);
+    });
+
+    it('fill a gap with short keys', () => {
+        const ranks = ranksBetween('a', 'b', 100);
+        expect(isAscending(ranks)).toBe(true);
+        expect(ranks[0] > 'a' && ranks[99] < 'b').toBe(true);
+        expect(Math.max(...ranks.map(r => r.length))).toBeLessThan(6);
+    });
+});
+
+describe('compareRanks', () => {
+    it('sorts tasks without a rank first', () => {
+        expect(compareRanks(undefined, 'a')).toBe(-1);
+        expect(compareRanks('b', 'a')).toBe(1);
+        expect(compareRanks('a', 'a')).toBe(0);
+    });
+});
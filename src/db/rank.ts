@@ -0,0 +1,84 @@
+// Lexicographic rank keys for ordering tasks.
+// A rank is a string of base-62 digits read as a fraction (0.xyz), so a key can always be generated
+// between any two others and an insert or move only rewrites the task that moved.
+// Digits are in ASCII order, so ranks compare with plain string comparison.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Repeatedly inserting at the same spot grows keys by roughly one digit per six inserts.
+// Past this length the list is re-spread instead.
+export const MAX_RANK_LENGTH = 24;
+
+export const compareRanks = (a: string | undefined, b: string | undefined) => {
+    const x = a ?? '';
+    const y = b ?? '';
+    return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const midpoint = (a: string, b: string | null): string => {
+    if (b !== null) {
+        // Skip the shared prefix (a is padded with zeros)
+        let n = 0;
+        while ((a[n] || '0') === b[n]) n++;
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+    if (digitB - digitA > 1) {
+        return DIGITS[Math.round((digitA + digitB) / 2)];
+    }
+    // Adjacent digits: keep a's digit and go one level deeper
+    if (b !== null && b.length > 1) return b.slice(0, 1);
+    return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// A rank strictly between `before` and `after`; null means the start or end of the list.
+export const rankBetween = (before: string | null, after: string | null) => {
+    if (before !== null && after !== null && before >= after) {
+        throw new Error(`Cannot rank between "${before}" and "${after}"`);
+    }
+    return midpoint(before ?? '', after);
+};
+
+// Evenly spaced ranks for a list of `count` items, used for migration and rebalancing.
+export const spreadRanks = (count: number) => {
+    let length = 1;
+    while (Math.pow(DIGITS.length, length) < (count + 1) * 16) length++;
+    const space = Math.pow(DIGITS.length, length);
+
+    const ranks: string[] = [];
+    for (let i = 1; i <= count; i++) {
+        let value = Math.floor(i * space / (count + 1));
+        let key = '';
+        for (let d = 0; d < length; d++) {
+            key = DIGITS[value % DIGITS.length] + key;
+            value = Math.floor(value / DIGITS.length);
+        }
+        // Keys must not end in the zero digit, or nothing could be ranked just before them
+        ranks.push(key.replace(/0+$/, ''));
+    }
+    return ranks;
+};
+
+// `count` ascending ranks that all sort after `before`, for appending many items at once
+// without the key growth of calling rankBetween repeatedly.
+export const ranksAfter = (before: string | null, count: number) => {
+    if (before === null) return spreadRanks(count);
+    const prefix = rankBetween(before, null);
+    return spreadRanks(count).map(rank => prefix + rank);
+};
+
+// `count` ascending ranks strictly between `before` and `after`, filled by repeated bisection
+// so keys grow with the log of the count rather than linearly.
+export const ranksBetween = (before: string | null, after: string | null, count: number) => {
+    const ranks: string[] = new Array(count);
+    const fill = (low: string | null, high: string | null, from: number, to: number) => {
+        if (from > to) return;
+        const mid = Math.floor((from + to) / 2);
+        ranks[mid] = rankBetween(low, high);
+        fill(low, ranks[mid], from, mid - 1);
+        fill(ranks[mid], high, mid + 1, to);
+    };
+    fill(before, after, 0, count - 1);
+    return ranks;
+};
@@ -0,0 +1,91 @@
+import { addDays, addMonths, addYears, differenceInCalendarDays, differenceInCalendarWeeks, format, getDaysInMonth, isAfter, parseISO, setDate } from 'date-fns';
+import { type RecurrenceRule, type Reminder } from './db';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const createDefaultRecurrence = (frequency: RecurrenceRule['frequency']): RecurrenceRule => ({
+    frequency,
+    interval: 1,
+    weekdays: [],
+    mode: 'fixed',
+    endDate: null,
+    count: null,
+    occurrence: 1
+});
+
+const nextWeeklyDate = (base: Date, interval: number, weekdays: number[]) => {
+    const days = weekdays.length > 0 ? weekdays : [base.getDay()];
+    // Walk forward day by day, only accepting days in weeks that are a multiple of interval away
+    for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = addDays(base, offset);
+        const weekIndex = differenceInCalendarWeeks(candidate, base);
+        if (weekIndex % interval === 0 && days.includes(candidate.getDay())) return candidate;
+    }
+    return addDays(base, 7 * interval);
+};
+
+// The day of the month a fixed monthly or yearly rule falls on. A due date on the clamped anchor day (Feb 28 for
+// the 31st) keeps the anchor; one moved to another day by hand anchors the repeats there instead.
+const getAnchorDay = (rule: RecurrenceRule, base: Date) => {
+    const day = base.getDate();
+    if (!rule.dayOfMonth) return day;
+    return Math.min(rule.dayOfMonth, getDaysInMonth(base)) === day ? rule.dayOfMonth : day;
+};
+
+const onDay = (date: Date, day: number) => setDate(date, Math.min(day, getDaysInMonth(date)));
+
+// Returns the due date (yyyy-MM-dd) of the occurrence after this one, or null when the rule has ended.
+export const getNextDueDate = (rule: RecurrenceRule, dueDate: string | null, completedOn: Date) => {
+    if (rule.count !== null && rule.occurrence >= rule.count) return null;
+
+    const base = rule.mode === 'fixed' && dueDate ? parseISO(dueDate) : completedOn;
+    const interval = Math.max(1, rule.interval);
+
+    let next: Date;
+    switch (rule.frequency) {
+        case 'daily': next = addDays(base, interval); break;
+        case 'weekly': next = nextWeeklyDate(base, interval, rule.weekdays); break;
+        case 'monthly': next = onDay(addMonths(base, interval), getAnchorDay(rule, base)); break;
+        case 'yearly': next = onDay(addYears(base, interval), getAnchorDay(rule, base)); break;
+    }
+
+    if (rule.endDate && isAfter(next, parseISO(rule.endDate))) return null;
+    return format(next, 'yyyy-MM-dd');
+};
+
+// The rule of the occurrence after one due on `dueDate`, remembering the day a fixed monthly or yearly rule
+// started on so a short month doesn't pull every later occurrence back (Jan 31, Feb 28, Mar 31)
+export const getNextRule = (rule: RecurrenceRule, dueDate: string | null): RecurrenceRule => {
+    const anchored = rule.mode === 'fixed' && dueDate && (rule.frequency === 'monthly' || rule.frequency === 'yearly');
+    return {
+        ...rule,
+        occurrence: rule.occurrence + 1,
+        dayOfMonth: anchored ? getAnchorDay(rule, parseISO(dueDate)) : rule.dayOfMonth ?? null
+    };
+};
+
+// Moves a subtask's due date by as many days as its recurring parent moved
+export const shiftDueDate = (dueDate: string | null, fromParent: string | null, toParent: string) => {
+    if (!dueDate) return null;
+    const delta = fromParent ? differenceInCalendarDays(parseISO(toParent), parseISO(fromParent)) : 0;
+    return format(addDays(parseISO(dueDate), delta), 'yyyy-MM-dd');
+};
+
+// Moves reminders at a fixed moment along with the occurrence, by as many days as its due date moved (from the day
+// it was completed when it had none); reminders relative to the due time follow it on their own
+export const shiftReminders = (reminders: Reminder[], fromDueDate: string | null, toDueDate: string, completedOn: Date) => {
+    const delta = differenceInCalendarDays(parseISO(toDueDate), fromDueDate ? parseISO(fromDueDate) : completedOn);
+    return reminders.map(r => r.type === 'at' ? { ...r, time: addDays(r.time, delta).getTime() } : r);
+};
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+    const unit = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[rule.frequency];
+    let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+    if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+        text += ` on ${[...rule.weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+    }
+    if (rule.mode === 'afterCompletion') text += ' after completion';
+    if (rule.endDate) text += ` until ${format(parseISO(rule.endDate), 'MMM d, yyyy')}`;
+    if (rule.count !== null) text += ` (${rule.occurrence} of ${rule.count})`;
+    return text;
+};
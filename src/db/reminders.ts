@@ -0,0 +1,174 @@
+import { format } from 'date-fns';
+import { type Reminder, type Task } from './db';
+import { getRepository } from './repository';
+import { actions } from './actions';
+import { isTrashed } from './trash';
+import { getDueInstant, parseLocalDate } from './dates';
+import { getServiceWorkerRegistration } from './serviceWorker';
+
+// Reminders are checked by the open app and shown through the service worker, so they
+// appear while the tab is in the background and carry Snooze / Mark complete buttons. The worker hands
+// button presses back to the app, or opens it with the action in the URL when no tab is left.
+// Nothing schedules them with the app closed: they need an open tab, and browsers slow the timers of
+// background tabs, so one can come up to a minute or so late. Ones missed within the last day show when the app opens.
+
+export const SNOOZE_MINUTES = 10;
+
+// Tasks due on a day without a time are reminded about relative to this time
+const DEFAULT_REMINDER_TIME = '09:00';
+
+// How late a missed reminder (device asleep, app closed) is still shown
+const MISSED_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+const FIRED_KEY = 'firedReminders';
+
+export const REMINDER_PRESETS = [0, 5, 15, 30, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+export const describeReminder = (reminder: Reminder) => {
+    if (reminder.type === 'at') return format(reminder.time, 'MMM d, HH:mm');
+    const m = reminder.minutes;
+    if (m === 0) return 'At due time';
+    if (m % (24 * 60) === 0) return `${m / (24 * 60)} day${m === 24 * 60 ? '' : 's'} before`;
+    if (m % 60 === 0) return `${m / 60} hour${m === 60 ? '' : 's'} before`;
+    return `${m} minutes before`;
+};
+
+// When each of the task's reminders (and its snooze) goes off, keyed so a firing is recognised later
+export const getReminderTimes = (task: Task) => {
+    const times: { key: string; time: number }[] = [];
+    const due = task.dueDate ? getDueInstant({ ...task, dueTime: task.dueTime || DEFAULT_REMINDER_TIME }) : null;
+    for (const reminder of task.reminders || []) {
+        if (reminder.type === 'at') times.push({ key: `${task.id}:${reminder.id}:${reminder.time}`, time: reminder.time });
+        else if (due) {
+            const time = due.getTime() - reminder.minutes * 60000;
+            times.push({ key: `${task.id}:${reminder.id}:${time}`, time });
+        }
+    }
+    if (task.snoozedUntil) times.push({ key: `${task.id}:snooze:${task.snoozedUntil}`, time: task.snoozedUntil });
+    return times;
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+type ReminderAction = 'snooze' | 'complete';
+
+// The spec'd notification buttons aren't in TypeScript's DOM types
+type ReminderNotificationOptions = NotificationOptions & { actions?: { action: ReminderAction; title: string }[] };
+
+class ReminderScheduler {
+    private tasks: Task[] = [];
+    private unsubscribe: (() => void) | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    private handleMessage = (event: MessageEvent) => {
+        const data = event.data;
+        if (data?.type === 'reminder-action') this.runAction(data.action, data.taskId);
+    };
+
+    start() {
+        this.stop();
+        if ('serviceWorker' in navigator) navigator.serviceWorker.addEventListener('message', this.handleMessage);
+        this.unsubscribe = getRepository().subscribe(tasks => {
+            this.tasks = tasks;
+            this.check();
+        });
+        this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+        this.runActionFromUrl();
+    }
+
+    stop() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        if ('serviceWorker' in navigator) navigator.serviceWorker.removeEventListener('message', this.handleMessage);
+        this.tasks = [];
+    }
+
+    async requestPermission() {
+        if (!notificationsSupported()) return 'denied';
+        return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+    }
+
+    private async runAction(action: ReminderAction, taskId: string) {
+        if (action === 'snooze') await actions.updateTask(taskId, { snoozedUntil: Date.now() + SNOOZE_MINUTES * 60000 });
+        else if (action === 'complete') await actions.toggleTaskCompletion(taskId, true);
+    }
+
+    // The worker opens /?reminderAction=…&taskId=… when a button is pressed with no tab open
+    private runActionFromUrl() {
+        const params = new URLSearchParams(window.location.search);
+        const action = params.get('reminderAction');
+        const taskId = params.get('taskId');
+        if (!action || !taskId) return;
+        window.history.replaceState(null, '', window.location.pathname);
+        if (action === 'snooze' || action === 'complete') this.runAction(action, taskId);
+    }
+
+    // Fired reminder keys with when they fired, so each shows once per device
+    private loadFired(): Record<string, number> {
+        try {
+            return JSON.parse(localStorage.getItem(FIRED_KEY) || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    private check() {
+        if (!notificationsSupported() || Notification.permission !== 'granted') return;
+        const now = Date.now();
+        const fired = this.loadFired();
+        let changed = false;
+
+        for (const task of this.tasks) {
+            if (task.completed || isTrashed(task)) continue;
+            for (const { key, time } of getReminderTimes(task)) {
+                if (time > now || time < now - MISSED_WINDOW_MS || fired[key]) continue;
+                fired[key] = now;
+                changed = true;
+                this.notify(task, key);
+            }
+        }
+
+        // Keys can only fire within the missed window, so older entries are done with
+        for (const key of Object.keys(fired)) {
+            if (fired[key] < now - 2 * MISSED_WINDOW_MS) {
+                delete fired[key];
+                changed = true;
+            }
+        }
+        if (changed) localStorage.setItem(FIRED_KEY, JSON.stringify(fired));
+    }
+
+    private async notify(task: Task, key: string) {
+        const due = task.dueDate
+            ? `Due ${format(parseLocalDate(task.dueDate), 'EEE, MMM d')}${task.dueTime ? ` at ${task.dueTime}` : ''}`
+            : 'Reminder';
+        const options: NotificationOptions = {
+            body: task.timeZone && task.dueTime ? `${due} (${task.timeZone})` : due,
+            tag: key,
+            data: { taskId: task.id },
+            requireInteraction: true
+        };
+        const title = task.text.trim() || 'Untitled task';
+        const registration = await getServiceWorkerRegistration();
+        if (registration) {
+            const withActions: ReminderNotificationOptions = {
+                ...options,
+                actions: [
+                    { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+                    { action: 'complete', title: 'Mark complete' }
+                ]
+            };
+            await registration.showNotification(title, withActions);
+        } else {
+            // Without a worker there are no buttons; clicking brings the app forward
+            const notification = new Notification(title, options);
+            notification.onclick = () => window.focus();
+        }
+    }
+}
+
+export const reminders = new ReminderScheduler();
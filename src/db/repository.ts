@@ -0,0 +1,115 @@
+import { type Task } from './db';
+import type { HistoryEntry } from './history';
+import type { SmartView } from './views';
+
+// A single write inside an atomic commit.
+// set: create or fully replace a task. update: merge fields into an existing task. delete: remove it.
+export type TaskWrite =
+    | { type: 'set'; task: Task }
+    | { type: 'update'; id: string; changes: Partial<Task> }
+    | { type: 'delete'; id: string };
+
+// Equality criteria for findTasks. Every given field must match; an empty object matches everything.
+export type TaskCriteria = Partial<Pick<Task, 'parentId' | 'isFocused' | 'completed' | 'dueDate' | 'deletedWith'>>;
+
+// Everything the app needs from a storage backend, scoped to the signed-in user's tasks.
+export interface TaskRepository {
+    getTask(id: string): Promise<Task | null>;
+    // Bulk lookup; ids that don't exist are left out of the result
+    getTasks(ids: string[]): Promise<Task[]>;
+    findTasks(criteria?: TaskCriteria): Promise<Task[]>;
+    // Direct children of any of the given parents
+    findChildren(parentIds: string[]): Promise<Task[]>;
+    // Applies all writes together or none of them, however many there are. A backend that syncs with a
+    // server resolves once the writes are applied locally and confirms them in the background (see SyncStatus).
+    commit(writes: TaskWrite[]): Promise<void>;
+    // Listener receives the full task list now and after every change. Returns an unsubscribe function.
+    subscribe(listener: (tasks: Task[]) => void): () => void;
+}
+
+// A small per-user collection of records keyed by id, loaded whole on sign-in.
+export interface RecordStore<T extends { id: string }> {
+    load(): Promise<T[]>;
+    put(records: T[]): Promise<void>;
+    remove(ids: string[]): Promise<void>;
+}
+
+// Durable undo history for the signed-in user, one record per entry.
+export type HistoryStore = RecordStore<HistoryEntry>;
+
+// Saved Sidebar views for the signed-in user.
+export type SmartViewStore = RecordStore<SmartView>;
+
+export interface SessionUser {
+    uid: string;
+    email: string | null;
+}
+
+export interface SessionState {
+    user: SessionUser | null;
+    loading: boolean;
+}
+
+// Authentication for a backend. Local backends are always signed in and never show the login screen.
+export interface Session {
+    readonly requiresSignIn: boolean;
+    getState(): SessionState;
+    subscribe(listener: () => void): () => void;
+    signIn(email: string, password: string): Promise<void>;
+    signUp(email: string, password: string): Promise<void>;
+    signOut(): Promise<void>;
+}
+
+export interface SyncState {
+    online: boolean;
+    pendingWrites: number;   // Task writes made here that the server hasn't confirmed yet
+    error: string | null;    // Why the server last rejected a write, until the next one goes through
+}
+
+// Connection and upload progress of a backend that syncs with a server
+export interface SyncStatus {
+    getState(): SyncState;
+    subscribe(listener: () => void): () => void;
+}
+
+export interface StorageBackend {
+    repository: TaskRepository;
+    history: HistoryStore;
+    views: SmartViewStore;
+    session: Session;
+    sync: SyncStatus | null;   // null for backends that only store on this device
+}
+
+export type StorageBackendKind = 'firestore' | 'local' | 'memory';
+
+let activeBackend: StorageBackend | null = null;
+
+export const setBackend = (backend: StorageBackend) => {
+    activeBackend = backend;
+};
+
+const getBackend = () => {
+    if (!activeBackend) throw new Error("Storage backend not initialized");
+    return activeBackend;
+};
+
+export const getRepository = () => getBackend().repository;
+export const getHistoryStore = () => getBackend().history;
+export const getSmartViewStore = () => getBackend().views;
+export const getSession = () => getBackend().session;
+export const getSyncStatus = () => getBackend().sync;
+
+// Picks the backend named by VITE_STORAGE_BACKEND (defaults to Firestore).
+// Firebase is loaded lazily so the local backends run without any Firebase configuration.
+export async function initBackend(kind: StorageBackendKind = import.meta.env.VITE_STORAGE_BACKEND || 'firestore') {
+    let backend: StorageBackend;
+    if (kind === 'local' || kind === 'memory') {
+        const { createLocalBackend } = await import('./localBackend');
+        backend = createLocalBackend(kind === 'local');
+    } else {
+        const { createFirestoreBackend } = await import('./firestoreBackend');
+        backend = createFirestoreBackend();
+    }
+    setBackend(backend);
+    return backend;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { type Task } from './db';
+import { createMatchContext, createSearchFilter, parseQuery } from './search';
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+    id, parentId: 'root', text: id, completed: false, dueDate: null, tags: [], order: '', createdAt: 0, userId: 'local', ...fields
+});
+
+const tasks = [
+    task('project', { text: 'Project X' }),
+    task('report', { parentId: 'project', text: 'Write report', tags: ['work'], dueDate: '2026-11-01', priority: 1 }),
+    task('slides', { parentId: 'project', text: 'Make slides', tags: ['work', 'later'], notes: 'ask about the budget', completed: true }),
+    task('milk', { text: 'Buy milk', tags: ['home'], dueDate: '2026-10-20', priority: 3 })
+];
+
+// Ids of the tasks matching `query`
+const search = (query: string) => {
+    const parsed = parseQuery(query);
+    if (!parsed.ok) throw new Error(parsed.error.message);
+    const ctx = createMatchContext(tasks);
+    return tasks.filter(t => parsed.match(t, ctx)).map(t => t.id);
+};
+
+describe('parseQuery', () => {
+    it('matches words and phrases in titles, notes and tags', () => {
+        expect(search('milk')).toEqual(['milk']);
+        expect(search('"write rep"')).toEqual(['report']);
+        expect(search('budget')).toEqual(['slides']);
+    });
+
+    it('requires every term next to each other', () => {
+        expect(search('tag:work is:open')).toEqual(['report']);
+    });
+
+    it('supports OR, NOT, a leading minus and parentheses', () => {
+        expect(search('tag:home OR tag:later')).toEqual(['slides', 'milk']);
+        expect(search('tag:work -tag:later')).toEqual(['report']);
+        expect(search('NOT (tag:work OR tag:home)')).toEqual(['project']);
+    });
+
+    it('compares due dates and priorities', () => {
+        expect(search('due:<2026-11-01')).toEqual(['milk']);
+        expect(search('due:>=2026-11-01')).toEqual(['report']);
+        expect(search('due:none')).toEqual(['project', 'slides']);
+        expect(search('priority:<=2')).toEqual(['report']);
+        expect(search('priority:p3')).toEqual(['milk']);
+    });
+
+    it('matches parents and subtasks through the context', () => {
+        expect(search('parent:"project x"')).toEqual(['report', 'slides']);
+        expect(search('has:subtasks')).toEqual(['project']);
+        expect(search('has:notes')).toEqual(['slides']);
+    });
+
+    it('reports where a query is malformed', () => {
+        const parsed = parseQuery('tag:work AND ("open');
+        expect(parsed.ok).toBe(false);
+        if (!parsed.ok) expect(parsed.error.start).toBe(14);
+        expect(parseQuery('(tag:work').ok).toBe(false);
+    });
+
+    it('matches everything for an empty query', () => {
+        expect(search('  ')).toHaveLength(tasks.length);
+    });
+});
+
+describe('createSearchFilter', () => {
+    it('looks up parents outside the filtered tasks', () => {
+        const matches = createSearchFilter('parent:"Project X"', tasks);
+        expect([tasks[1], tasks[3]].filter(matches).map(t => t.id)).toEqual(['report']);
+    });
+
+    it('falls back to text search while the query is malformed', () => {
+        const matches = createSearchFilter('Buy (', tasks);
+        expect(matches(task('x', { text: 'buy ( milk' }))).toBe(true);
+    });
+});
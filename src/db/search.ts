@@ -0,0 +1,305 @@
+import { addDays, isValid, parseISO } from 'date-fns';
+import { type Task } from './db';
+import { getLocalDueDate, isOverdue, todayString, toDateString } from './dates';
+import { getPriority, parsePriority } from './priority';
+
+// Search query language used by the search box.
+//
+//   word "exact phrase"      title, notes or tags contain the text
+//   tag:work  -tag:later     has (or lacks) a tag
+//   due:today  due:<2026-11-01  due:>=tomorrow  due:overdue  due:none
+//   priority:1  priority:p2  priority:<=2  (numbers compare as written, so <=2 means P1 or P2)
+//   is:completed  is:open  is:focus  is:recurring
+//   has:notes  has:tags  has:due  has:subtasks
+//   notes:"phrase"  parent:"Project X"  (parent matches any ancestor's title)
+//
+// Terms next to each other must all match. Combine with AND, OR, NOT (or a leading -) and parentheses.
+
+export interface QueryError {
+    message: string;
+    start: number;  // Offsets into the query string, end exclusive
+    end: number;
+}
+
+export interface MatchContext {
+    byId: Map<string, Task>;
+    parentIds: Set<string>;
+}
+
+export type TaskMatcher = (task: Task, ctx: MatchContext) => boolean;
+
+export type ParsedQuery =
+    | { ok: true; match: TaskMatcher }
+    | { ok: false; error: QueryError };
+
+type Token =
+    | { type: 'term'; key: string | null; value: string; start: number; end: number }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close'; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+    start: number;
+    end: number;
+
+    constructor(message: string, start: number, end: number) {
+        super(message);
+        this.start = start;
+        this.end = end;
+    }
+}
+
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+const tokenize = (input: string) => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readString = (start: number) => {
+        const close = input.indexOf('"', start + 1);
+        if (close === -1) throw new QuerySyntaxError('Missing closing quote', start, input.length);
+        return { value: input.slice(start + 1, close), end: close + 1 };
+    };
+
+    while (i < input.length) {
+        const ch = input[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '(' || ch === ')') {
+            tokens.push({ type: ch === '(' ? 'open' : 'close', start: i, end: i + 1 });
+            i++;
+        } else if (ch === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+            tokens.push({ type: 'not', start: i, end: i + 1 });
+            i++;
+        } else if (ch === '"') {
+            const { value, end } = readString(i);
+            tokens.push({ type: 'term', key: null, value, start: i, end });
+            i = end;
+        } else {
+            const start = i;
+            while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+            const word = input.slice(start, i);
+            const colon = word.indexOf(':');
+
+            if (colon > 0) {
+                let value = word.slice(colon + 1);
+                // key:"quoted value"
+                if (value === '' && input[i] === '"') {
+                    const str = readString(i);
+                    value = str.value;
+                    i = str.end;
+                }
+                tokens.push({ type: 'term', key: word.slice(0, colon).toLowerCase(), value, start, end: i });
+            } else if (OPERATORS[word]) {
+                tokens.push({ type: OPERATORS[word], start, end: i });
+            } else {
+                tokens.push({ type: 'term', key: null, value: word, start, end: i });
+            }
+        }
+    }
+    return tokens;
+};
+
+const contains = (haystack: string | undefined, needle: string) =>
+    !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+const textMatcher = (value: string): TaskMatcher => task =>
+    contains(task.text, value) ||
+    contains(task.notes, value) ||
+    (task.tags || []).some(tag => contains(tag, value));
+
+// Turns a date keyword or yyyy-MM-dd into a date string, evaluated when matching so "today" stays current
+const dateValue = (value: string): (() => string) | null => {
+    switch (value.toLowerCase()) {
+        case 'today': return todayString;
+        case 'tomorrow': return () => toDateString(addDays(new Date(), 1));
+        case 'yesterday': return () => toDateString(addDays(new Date(), -1));
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))) return () => value;
+    return null;
+};
+
+const dueMatcher = (value: string): TaskMatcher | null => {
+    switch (value.toLowerCase()) {
+        case 'none': return task => !task.dueDate;
+        case 'any': return task => !!task.dueDate;
+        case 'overdue': return task => isOverdue(task);
+    }
+
+    // Days compare as yyyy-MM-dd strings, on the day the task is due locally
+    const [, op, rest] = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+    const date = dateValue(rest);
+    if (!date) return null;
+    const due = (task: Task, test: (day: string) => boolean) => {
+        const day = getLocalDueDate(task);
+        return !!day && test(day);
+    };
+    switch (op) {
+        case '<': return task => due(task, day => day < date());
+        case '<=': return task => due(task, day => day <= date());
+        case '>': return task => due(task, day => day > date());
+        case '>=': return task => due(task, day => day >= date());
+        default: return task => due(task, day => day === date());
+    }
+};
+
+const priorityMatcher = (value: string): TaskMatcher | null => {
+    const [, op, rest] = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+    const level = parsePriority(rest);
+    if (!level) return null;
+    switch (op) {
+        case '<': return task => getPriority(task) < level;
+        case '<=': return task => getPriority(task) <= level;
+        case '>': return task => getPriority(task) > level;
+        case '>=': return task => getPriority(task) >= level;
+        default: return task => getPriority(task) === level;
+    }
+};
+
+const IS_MATCHERS: Record<string, TaskMatcher> = {
+    completed: task => task.completed,
+    done: task => task.completed,
+    open: task => !task.completed,
+    incomplete: task => !task.completed,
+    focus: task => !!task.isFocused,
+    recurring: task => !!task.recurrence
+};
+
+const HAS_MATCHERS: Record<string, TaskMatcher> = {
+    notes: task => !!task.notes?.trim(),
+    tags: task => (task.tags || []).length > 0,
+    due: task => !!task.dueDate,
+    subtasks: (task, ctx) => ctx.parentIds.has(task.id)
+};
+
+const ancestorMatcher = (value: string): TaskMatcher => (task, ctx) => {
+    let parent = ctx.byId.get(task.parentId);
+    while (parent) {
+        if (contains(parent.text, value)) return true;
+        parent = ctx.byId.get(parent.parentId);
+    }
+    return false;
+};
+
+const termMatcher = (token: Extract<Token, { type: 'term' }>): TaskMatcher => {
+    const { key, value, start, end } = token;
+    if (key === null) return textMatcher(value);
+    if (value === '') throw new QuerySyntaxError(`Missing value after ${key}:`, start, end);
+
+    const invalid = (expected: string) => new QuerySyntaxError(`Unknown ${key}: value "${value}". Try ${expected}`, start, end);
+    switch (key) {
+        case 'tag': return task => (task.tags || []).some(tag => tag.toLowerCase() === value.toLowerCase());
+        case 'text': return task => contains(task.text, value);
+        case 'notes': return task => contains(task.notes, value);
+        case 'parent': return ancestorMatcher(value);
+        case 'due': {
+            const matcher = dueMatcher(value);
+            if (!matcher) throw invalid('today, tomorrow, overdue, none or a date like <2026-11-01');
+            return matcher;
+        }
+        case 'priority': {
+            const matcher = priorityMatcher(value);
+            if (!matcher) throw invalid('1 to 4, p1 to p4 or a range like <=2');
+            return matcher;
+        }
+        case 'is': {
+            const matcher = IS_MATCHERS[value.toLowerCase()];
+            if (!matcher) throw invalid(Object.keys(IS_MATCHERS).join(', '));
+            return matcher;
+        }
+        case 'has': {
+            const matcher = HAS_MATCHERS[value.toLowerCase()];
+            if (!matcher) throw invalid(Object.keys(HAS_MATCHERS).join(', '));
+            return matcher;
+        }
+        default:
+            throw new QuerySyntaxError(`Unknown filter "${key}:"`, start, start + key.length + 1);
+    }
+};
+
+// Recursive descent over: or := and (OR and)* ; and := unary (AND? unary)* ; unary := (NOT|-) unary | ( or ) | term
+const parseTokens = (tokens: Token[], input: string): TaskMatcher => {
+    let pos = 0;
+    const peek = () => tokens[pos];
+
+    const parseOr = (): TaskMatcher => {
+        const parts = [parseAnd()];
+        while (peek()?.type === 'or') {
+            pos++;
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : (task, ctx) => parts.some(p => p(task, ctx));
+    };
+
+    const parseAnd = (): TaskMatcher => {
+        const parts = [parseUnary()];
+        for (;;) {
+            const next = peek();
+            if (next?.type === 'and') {
+                pos++;
+                parts.push(parseUnary());
+            } else if (next && next.type !== 'or' && next.type !== 'close') {
+                parts.push(parseUnary());
+            } else {
+                break;
+            }
+        }
+        return parts.length === 1 ? parts[0] : (task, ctx) => parts.every(p => p(task, ctx));
+    };
+
+    const parseUnary = (): TaskMatcher => {
+        const token = peek();
+        if (!token) {
+            const prev = tokens[pos - 1];
+            throw new QuerySyntaxError('Expected a search term', prev ? prev.start : 0, input.length);
+        }
+        pos++;
+        switch (token.type) {
+            case 'not': {
+                const inner = parseUnary();
+                return (task, ctx) => !inner(task, ctx);
+            }
+            case 'open': {
+                const inner = parseOr();
+                if (peek()?.type !== 'close') throw new QuerySyntaxError('Missing closing parenthesis', token.start, input.length);
+                pos++;
+                return inner;
+            }
+            case 'term':
+                return termMatcher(token);
+            default:
+                throw new QuerySyntaxError(`Expected a search term before ${input.slice(token.start, token.end)}`, token.start, token.end);
+        }
+    };
+
+    const match = parseOr();
+    const extra = peek();
+    if (extra) throw new QuerySyntaxError('Unmatched closing parenthesis', extra.start, extra.end);
+    return match;
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+    try {
+        const tokens = tokenize(input);
+        if (tokens.length === 0) return { ok: true, match: () => true };
+        return { ok: true, match: parseTokens(tokens, input) };
+    } catch (err) {
+        if (err instanceof QuerySyntaxError) {
+            return { ok: false, error: { message: err.message, start: err.start, end: err.end } };
+        }
+        throw err;
+    }
+};
+
+export const createMatchContext = (tasks: Task[]): MatchContext => ({
+    byId: new Map(tasks.map(t => [t.id, t])),
+    parentIds: new Set(tasks.map(t => t.parentId))
+});
+
+// Predicate for the search box. While a query is malformed (usually mid-typing) it falls back
+// to plain text search so the results don't blank out. `allTasks` are every live task, not just the view's,
+// so parent: and has:subtasks see ancestors and subtasks the view leaves out.
+export const createSearchFilter = (query: string, allTasks: Task[]) => {
+    const parsed = parseQuery(query);
+    const match = parsed.ok ? parsed.match : textMatcher(query.trim());
+    const ctx = createMatchContext(allTasks);
+    return (task: Task) => match(task, ctx);
+};
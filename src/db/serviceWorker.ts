@@ -0,0 +1,26 @@
+// The service worker (public/sw.js) keeps the app shell cached for offline use and shows reminders.
+
+let registration: Promise<ServiceWorkerRegistration | null> = Promise.resolve(null);
+
+// Files this page has already loaded, so the worker can cache the ones fetched before it took control
+const loadedUrls = () => [
+    window.location.origin + '/',
+    ...performance.getEntriesByType('resource')
+        .map(entry => entry.name)
+        .filter(url => url.startsWith(window.location.origin))
+];
+
+export const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator)) return;
+    registration = navigator.serviceWorker.register('/sw.js')
+        .then(() => navigator.serviceWorker.ready)
+        .then(ready => {
+            ready.active?.postMessage({ type: 'cache-urls', urls: loadedUrls() });
+            return ready;
+        })
+        // Without a worker the app still runs; it just isn't cached for offline use and shows reminders itself
+        .catch(() => null);
+};
+
+// Resolves to null when there is no worker (unsupported, or registration failed)
+export const getServiceWorkerRegistration = () => registration;
@@ -0,0 +1,58 @@
+import { type Task } from './db';
+import { type SectionFilter } from './hooks';
+import { getDueInstant } from './dates';
+import { getPriority } from './priority';
+
+// How a view orders its tasks. Manual is the drag-and-drop order kept in the ranks; the others are computed,
+// so dragging is off while one of them is active.
+export type SortMode = 'manual' | 'dueDate' | 'createdAt' | 'alphabetical' | 'completedLast' | 'priority';
+
+export const SORT_MODES: { id: SortMode; label: string }[] = [
+    { id: 'manual', label: 'Manual' },
+    { id: 'dueDate', label: 'Due date' },
+    { id: 'createdAt', label: 'Date created' },
+    { id: 'alphabetical', label: 'Alphabetical' },
+    { id: 'completedLast', label: 'Completed last' },
+    { id: 'priority', label: 'Priority' }
+];
+
+const isSortMode = (value: unknown): value is SortMode => SORT_MODES.some(m => m.id === value);
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Undated tasks go after dated ones
+const byDue = (a: Task, b: Task) => {
+    const dueA = getDueInstant(a)?.getTime() ?? Infinity;
+    const dueB = getDueInstant(b)?.getTime() ?? Infinity;
+    return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+};
+
+// Comparator for a non-manual mode, or null to keep the manual order. Sorting is stable, so ties keep it too.
+export const getSortComparator = (mode: SortMode): ((a: Task, b: Task) => number) | null => {
+    switch (mode) {
+        case 'dueDate': return byDue;
+        case 'createdAt': return (a, b) => a.createdAt - b.createdAt;
+        case 'alphabetical': return (a, b) => collator.compare(a.text.trim(), b.text.trim());
+        case 'completedLast': return (a, b) => Number(a.completed) - Number(b.completed);
+        case 'priority': return (a, b) => getPriority(a) - getPriority(b);
+        default: return null;
+    }
+};
+
+// Built-in views remember their sort on this device. Custom ranges share one per kind, since the range itself changes.
+export const getSortKey = (filter: SectionFilter) => typeof filter === 'string' ? filter : filter.type;
+
+const SORT_MODES_KEY = 'sortModes';
+
+export const loadSortModes = (): Record<string, SortMode> => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SORT_MODES_KEY) || '{}');
+        return Object.fromEntries(Object.entries(saved).filter(([, mode]) => isSortMode(mode))) as Record<string, SortMode>;
+    } catch {
+        return {};
+    }
+};
+
+export const saveSortModes = (modes: Record<string, SortMode>) => {
+    localStorage.setItem(SORT_MODES_KEY, JSON.stringify(modes));
+};
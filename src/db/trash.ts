@@ -0,0 +1,19 @@
+import { type Task } from './db';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const RETENTION_KEY = 'trashRetentionDays';
+
+export const isTrashed = (task: Task) => !!task.deletedAt;
+
+// The task a whole deleted subtree is listed and restored under
+export const isTrashRoot = (task: Task) => isTrashed(task) && task.deletedWith === task.id;
+
+// Stored per device, like the theme
+export const getTrashRetentionDays = () => {
+    const saved = parseInt(localStorage.getItem(RETENTION_KEY) || '', 10);
+    return saved > 0 ? saved : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number) => {
+    localStorage.setItem(RETENTION_KEY, Math.max(1, Math.round(days)).toString());
+};
@@ -0,0 +1,139 @@
+import type { PriorityFilter, SectionFilter, StatusFilter } from './hooks';
+import { getSmartViewStore } from './repository';
+import { compareRanks, rankBetween, spreadRanks, MAX_RANK_LENGTH } from './rank';
+import type { SortMode } from './sorting';
+
+export type SmartViewIcon = 'star' | 'bookmark' | 'briefcase' | 'home' | 'flag' | 'tag' | 'zap' | 'heart';
+
+export const SMART_VIEW_ICONS: SmartViewIcon[] = ['star', 'bookmark', 'briefcase', 'home', 'flag', 'tag', 'zap', 'heart'];
+
+// A saved combination of Sidebar filter, status and priority filters and search query
+export interface SmartView {
+    id: string;
+    name: string;
+    icon: SmartViewIcon;
+    filter: SectionFilter;
+    statusFilter: StatusFilter;
+    priorityFilter?: PriorityFilter;   // Missing on views saved before priorities existed
+    searchQuery: string;
+    sortMode?: SortMode;               // Travels with the view, unlike the built-in views' sort
+    order: string;      // Rank key in the Sidebar list
+    createdAt: number;
+}
+
+export type SmartViewDraft = Pick<SmartView, 'name' | 'icon' | 'filter' | 'statusFilter' | 'priorityFilter' | 'searchQuery' | 'sortMode'>;
+
+// Whether the app is currently showing exactly what the view saves
+export const isViewActive = (view: SmartView, filter: SectionFilter, statusFilter: StatusFilter, priorityFilter: PriorityFilter, searchQuery: string) =>
+    JSON.stringify(view.filter) === JSON.stringify(filter) &&
+    view.statusFilter === statusFilter &&
+    (view.priorityFilter ?? 'all') === priorityFilter &&
+    view.searchQuery.trim() === searchQuery.trim();
+
+class SmartViewManager {
+    // Sorted by order
+    private views: SmartView[] = [];
+    private listeners: (() => void)[] = [];
+    // Set while the last save failed, so the views as shown would be lost on reload
+    private saveFailed = false;
+
+    getViews() {
+        return this.views;
+    }
+
+    hasSaveFailed() {
+        return this.saveFailed;
+    }
+
+    async load() {
+        this.views = (await getSmartViewStore().load()).sort((a, b) => compareRanks(a.order, b.order));
+        this.notify();
+    }
+
+    clear() {
+        this.views = [];
+        this.notify();
+    }
+
+    create(draft: SmartViewDraft) {
+        const last = this.views[this.views.length - 1];
+        const view: SmartView = {
+            ...draft,
+            id: crypto.randomUUID(),
+            order: rankBetween(last ? last.order : null, null),
+            createdAt: Date.now()
+        };
+        this.setViews([...this.views, view]);
+        this.save([view], []);
+        return view;
+    }
+
+    update(id: string, changes: Partial<SmartViewDraft>) {
+        const view = this.views.find(v => v.id === id);
+        if (!view) return;
+        const updated = { ...view, ...changes };
+        this.setViews(this.views.map(v => v.id === id ? updated : v));
+        this.save([updated], []);
+    }
+
+    remove(id: string) {
+        this.setViews(this.views.filter(v => v.id !== id));
+        this.save([], [id]);
+    }
+
+    // Moves a view to `index` in the list; only the moved view is rewritten unless the ranks need re-spreading
+    move(id: string, index: number) {
+        const view = this.views.find(v => v.id === id);
+        if (!view) return;
+        const others = this.views.filter(v => v.id !== id);
+        const before = index > 0 ? others[index - 1].order : null;
+        const after = index < others.length ? others[index].order : null;
+
+        let changed: SmartView[];
+        const rank = before === null || after === null || before < after ? rankBetween(before, after) : null;
+        if (rank && rank.length <= MAX_RANK_LENGTH) {
+            changed = [{ ...view, order: rank }];
+        } else {
+            const list = [...others];
+            list.splice(index, 0, view);
+            const ranks = spreadRanks(list.length);
+            changed = list.map((v, i) => ({ ...v, order: ranks[i] }));
+        }
+
+        const byId = new Map(changed.map(v => [v.id, v]));
+        this.setViews(this.views.map(v => byId.get(v.id) ?? v));
+        this.save(changed, []);
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private setViews(views: SmartView[]) {
+        this.views = views.sort((a, b) => compareRanks(a.order, b.order));
+        this.notify();
+    }
+
+    private save(put: SmartView[], removeIds: string[]) {
+        const store = getSmartViewStore();
+        Promise.all([store.put(put), store.remove(removeIds)]).then(
+            () => this.setSaveFailed(false),
+            () => this.setSaveFailed(true)
+        );
+    }
+
+    private setSaveFailed(failed: boolean) {
+        if (this.saveFailed === failed) return;
+        this.saveFailed = failed;
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+}
+
+export const smartViews = new SmartViewManager();
@@ -2,8 +2,13 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 
 import App from './App';
+import { initBackend } from './db/repository';
+import { registerServiceWorker } from './db/serviceWorker';
 import './index.css';
 
+await initBackend();
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />